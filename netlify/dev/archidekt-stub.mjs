@@ -0,0 +1,64 @@
+// Stand-in for the Archidekt API, for developing deck and collection imports without hitting archidekt.com.
+//
+//   npm run stub:archidekt
+//   ARCHIDEKT_API_URL=http://localhost:8788/api npm run dev
+//
+// Deck 1 is a small sample deck and collection 1 a small collection. Decks 404, 429
+// and 503 answer with that status, and deck 504 never answers in time, to try out
+// the proxy's error handling.
+import { createServer } from 'node:http'
+
+const PORT = Number(process.env.PORT ?? 8788)
+
+const SAMPLE_DECK = {
+  name: 'Stub Deck',
+  cards: [
+    { card: { oracleCard: { name: 'Sol Ring' }, uid: '00000000-0000-4000-8000-000000000001' }, quantity: 1, categories: ['Artifact'] },
+    { card: { oracleCard: { name: 'Lightning Bolt' }, uid: '00000000-0000-4000-8000-000000000002' }, quantity: 4, categories: ['Instant'] },
+    { card: { oracleCard: { name: 'Mountain' }, uid: '00000000-0000-4000-8000-000000000003' }, quantity: 20, categories: ['Land'] },
+    { card: { oracleCard: { name: 'Duress' }, uid: '00000000-0000-4000-8000-000000000004' }, quantity: 2, categories: ['Sideboard'] }
+  ]
+}
+
+// Two pages, to exercise paging
+const SAMPLE_COLLECTION = [
+  [
+    { quantity: 1, modifier: 'Normal', condition: 'NM', language: 'EN', card: { uid: '00000000-0000-4000-8000-000000000001', collectorNumber: '263', edition: { editioncode: 'c21', editionname: 'Commander 2021' }, oracleCard: { name: 'Sol Ring' } } },
+    { quantity: 3, modifier: 'Foil', condition: 'LP', language: 'EN', card: { uid: '00000000-0000-4000-8000-000000000002', collectorNumber: '146', edition: { editioncode: 'm10', editionname: 'Magic 2010' }, oracleCard: { name: 'Lightning Bolt' } } }
+  ],
+  [
+    { quantity: 2, modifier: 'Normal', condition: 'MP', language: 'JA', card: { uid: '00000000-0000-4000-8000-000000000004', collectorNumber: '86', edition: { editioncode: 'm19', editionname: 'Core Set 2019' }, oracleCard: { name: 'Duress' } } }
+  ]
+]
+
+function sendJson(response, data) {
+  response.writeHead(200, { 'Content-Type': 'application/json' })
+  response.end(JSON.stringify(data))
+}
+
+const server = createServer((request, response) => {
+  const url = new URL(request.url ?? '/', 'http://localhost')
+  const deckId = url.pathname.match(/^\/api\/decks\/(\d+)\/$/)?.[1]
+  const collectionId = url.pathname.match(/^\/api\/collection\/v2\/(\d+)\/$/)?.[1]
+  console.log(`${request.method} ${request.url}`)
+
+  if (collectionId) {
+    const page = Number(url.searchParams.get('page') ?? 1)
+    const results = SAMPLE_COLLECTION[page - 1] ?? []
+    const next = page < SAMPLE_COLLECTION.length ? `/api/collection/v2/${collectionId}/?page=${page + 1}` : null
+    sendJson(response, { count: SAMPLE_COLLECTION.flat().length, next, results })
+  } else if (!deckId) {
+    response.writeHead(404).end()
+  } else if (deckId === '504') {
+    // Leave the request hanging past the proxy's timeout
+    setTimeout(() => response.writeHead(504).end(), 15_000)
+  } else if (['404', '429', '503'].includes(deckId)) {
+    response.writeHead(Number(deckId)).end()
+  } else {
+    sendJson(response, { id: Number(deckId), ...SAMPLE_DECK })
+  }
+})
+
+server.listen(PORT, () => {
+  console.log(`Archidekt stub listening on http://localhost:${PORT}/api`)
+})
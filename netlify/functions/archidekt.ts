@@ -0,0 +1,16 @@
+import { createProxy } from '../lib/proxy'
+
+// Archidekt doesn't allow cross-origin requests, so deck and collection imports go through this function.
+// Set ARCHIDEKT_API_URL to use another upstream, such as the stub in netlify/dev.
+export default createProxy({
+  name: 'Archidekt',
+  upstreamUrl: process.env.ARCHIDEKT_API_URL ?? 'https://archidekt.com/api',
+  prefix: '/api/archidekt/',
+  allowedPaths: [/^decks\/\d+\/$/, /^collection\/v2\/\d+\/$/],
+  allowedQuery: ['page'],
+  cacheSeconds: 300
+})
+
+export const config = {
+  path: '/api/archidekt/*'
+}
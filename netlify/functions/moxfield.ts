@@ -0,0 +1,16 @@
+import { createProxy } from '../lib/proxy'
+
+// Moxfield doesn't allow cross-origin requests, so collection imports go through this function.
+// Set MOXFIELD_API_URL to use another upstream.
+export default createProxy({
+  name: 'Moxfield',
+  upstreamUrl: process.env.MOXFIELD_API_URL ?? 'https://api2.moxfield.com',
+  prefix: '/api/moxfield/',
+  allowedPaths: [/^v1\/collections\/search\/[A-Za-z0-9_-]+$/],
+  allowedQuery: ['pageNumber', 'pageSize'],
+  cacheSeconds: 300
+})
+
+export const config = {
+  path: '/api/moxfield/*'
+}
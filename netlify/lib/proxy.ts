@@ -0,0 +1,118 @@
+// Shared implementation of the first-party API proxies in netlify/functions.
+// Each proxy forwards GET requests for an allowlist of upstream paths and caches
+// successful responses, both in the function instance and on Netlify's CDN.
+
+export interface ProxyOptions {
+  name: string              // Upstream name, for error messages
+  upstreamUrl: string       // Base URL requests are forwarded to
+  prefix: string            // Path the function is mounted at, e.g. '/api/archidekt/'
+  allowedPaths: RegExp[]    // Paths below the prefix that may be requested
+  allowedQuery?: string[]   // Query parameters forwarded to the upstream, e.g. for paging
+  cacheSeconds: number
+}
+
+interface CachedResponse {
+  body: string
+  contentType: string
+  expiresAt: number
+}
+
+const MAX_CACHE_ENTRIES = 200
+const UPSTREAM_TIMEOUT_MS = 10_000
+
+// Origins other than the app's own that may call the proxy (comma-separated)
+function corsHeaders(request: Request): Record<string, string> {
+  const origin = request.headers.get('Origin')
+  const allowed = (process.env.PROXY_ALLOWED_ORIGINS ?? '').split(',').map(value => value.trim()).filter(Boolean)
+  if (!origin || !allowed.includes(origin)) return {}
+  return {
+    'Access-Control-Allow-Origin': origin,
+    'Access-Control-Allow-Methods': 'GET',
+    'Vary': 'Origin'
+  }
+}
+
+function errorResponse(status: number, message: string, headers: Record<string, string>): Response {
+  return new Response(JSON.stringify({ error: message }), {
+    status,
+    headers: { ...headers, 'Content-Type': 'application/json', 'Cache-Control': 'no-store' }
+  })
+}
+
+function cachedResponse(cached: CachedResponse, cacheStatus: 'HIT' | 'MISS', cacheSeconds: number, headers: Record<string, string>): Response {
+  return new Response(cached.body, {
+    status: 200,
+    headers: {
+      ...headers,
+      'Content-Type': cached.contentType,
+      'Cache-Control': 'public, max-age=0, must-revalidate',
+      'Netlify-CDN-Cache-Control': `public, s-maxage=${cacheSeconds}, stale-while-revalidate=${cacheSeconds * 12}`,
+      'X-Proxy-Cache': cacheStatus
+    }
+  })
+}
+
+export function createProxy(options: ProxyOptions): (request: Request) => Promise<Response> {
+  const cache = new Map<string, CachedResponse>()
+  const upstreamUrl = options.upstreamUrl.replace(/\/$/, '')
+
+  return async request => {
+    const cors = corsHeaders(request)
+    if (request.method === 'OPTIONS') {
+      return new Response(null, { status: 204, headers: cors })
+    }
+    if (request.method !== 'GET') {
+      return errorResponse(405, 'Only GET requests are supported', cors)
+    }
+
+    // Only allowlisted query parameters are forwarded, so nothing else reaches the upstream
+    const url = new URL(request.url)
+    const path = url.pathname.startsWith(options.prefix) ? url.pathname.slice(options.prefix.length) : ''
+    if (!options.allowedPaths.some(pattern => pattern.test(path))) {
+      return errorResponse(403, `This path can't be requested through the ${options.name} proxy`, cors)
+    }
+    const query = new URLSearchParams()
+    for (const name of options.allowedQuery ?? []) {
+      const value = url.searchParams.get(name)
+      if (value !== null) query.set(name, value)
+    }
+    const search = query.toString()
+    const target = search ? `${path}?${search}` : path
+
+    const cached = cache.get(target)
+    if (cached && cached.expiresAt > Date.now()) {
+      return cachedResponse(cached, 'HIT', options.cacheSeconds, cors)
+    }
+
+    let upstream: Response
+    try {
+      upstream = await fetch(`${upstreamUrl}/${target}`, {
+        headers: { 'Accept': 'application/json', 'User-Agent': 'Spellbinder proxy' },
+        signal: AbortSignal.timeout(UPSTREAM_TIMEOUT_MS)
+      })
+    } catch (error) {
+      const timedOut = error instanceof Error && error.name === 'TimeoutError'
+      return timedOut
+        ? errorResponse(504, `${options.name} didn't respond in time`, cors)
+        : errorResponse(502, `Could not reach ${options.name}`, cors)
+    }
+
+    if (!upstream.ok) {
+      // Not found and rate limiting mean something to the app; other failures are the upstream's
+      const status = upstream.status === 404 || upstream.status === 429 ? upstream.status : 502
+      return errorResponse(status, `${options.name} responded with ${upstream.status} ${upstream.statusText}`.trim(), cors)
+    }
+
+    const entry: CachedResponse = {
+      body: await upstream.text(),
+      contentType: upstream.headers.get('Content-Type') ?? 'application/json',
+      expiresAt: Date.now() + options.cacheSeconds * 1000
+    }
+    cache.delete(target)
+    cache.set(target, entry)
+    if (cache.size > MAX_CACHE_ENTRIES) {
+      cache.delete(cache.keys().next().value!)
+    }
+    return cachedResponse(entry, 'MISS', options.cacheSeconds, cors)
+  }
+}
@@ -0,0 +1,107 @@
+// Spellbinder service worker: precaches the app shell so the app opens without
+// a connection, and keeps card images from Scryfall's CDN as they're shown.
+// The list of files to precache is written at build time (see vite.config.ts).
+
+const SHELL_CACHE_PREFIX = 'spellbinder-shell-'
+const META_CACHE = 'spellbinder-meta'
+const IMAGE_CACHE = 'spellbinder-images'
+const SHELL_VERSION_KEY = '/__shell-version'
+const IMAGE_HOSTS = ['cards.scryfall.io', 'svgs.scryfall.io']
+const MAX_CACHED_IMAGES = 5000
+const TRIM_INTERVAL = 50
+
+let imagesSinceTrim = 0
+
+self.addEventListener('install', event => {
+  event.waitUntil((async () => {
+    const response = await fetch('/precache-manifest.json', { cache: 'no-store' })
+    const { version, urls } = await response.json()
+
+    const cache = await caches.open(SHELL_CACHE_PREFIX + version)
+    await cache.addAll(urls)
+
+    const meta = await caches.open(META_CACHE)
+    await meta.put(SHELL_VERSION_KEY, new Response(version))
+
+    // Asset names are content-hashed, so the new shell can take over right away
+    await self.skipWaiting()
+  })())
+})
+
+self.addEventListener('activate', event => {
+  event.waitUntil((async () => {
+    const meta = await caches.open(META_CACHE)
+    const versionResponse = await meta.match(SHELL_VERSION_KEY)
+    const currentCache = versionResponse ? SHELL_CACHE_PREFIX + await versionResponse.text() : null
+
+    for (const name of await caches.keys()) {
+      if (name.startsWith(SHELL_CACHE_PREFIX) && name !== currentCache) {
+        await caches.delete(name)
+      }
+    }
+    await self.clients.claim()
+  })())
+})
+
+self.addEventListener('fetch', event => {
+  const request = event.request
+  if (request.method !== 'GET') return
+
+  const url = new URL(request.url)
+  if (IMAGE_HOSTS.includes(url.hostname)) {
+    event.respondWith(cacheFirstImage(request))
+    return
+  }
+
+  // API calls (Scryfall, our Archidekt proxy) go straight to the network - card data is cached in IndexedDB
+  if (url.origin !== self.location.origin || url.pathname.startsWith('/api/')) return
+
+  if (request.mode === 'navigate') {
+    event.respondWith(networkFirstPage(request))
+    return
+  }
+
+  event.respondWith(caches.match(request).then(cached => cached ?? fetch(request)))
+})
+
+// Pages come from the network when possible so deploys show up; offline every
+// route falls back to the cached index.html and the client-side router
+async function networkFirstPage(request) {
+  try {
+    return await fetch(request)
+  } catch (error) {
+    const cached = await caches.match('/index.html')
+    if (cached) return cached
+    throw error
+  }
+}
+
+async function cacheFirstImage(request) {
+  const cache = await caches.open(IMAGE_CACHE)
+  const cached = await cache.match(request.url)
+  if (cached) return cached
+
+  try {
+    // A CORS response can be cached as-is; opaque responses count against the quota at a much larger size
+    const response = await fetch(request.url, { mode: 'cors', credentials: 'omit' })
+    if (response.ok) {
+      await cache.put(request.url, response.clone())
+      trimImageCache(cache)
+    }
+    return response
+  } catch {
+    return fetch(request)
+  }
+}
+
+// Drop the oldest images once the cache grows past its limit
+async function trimImageCache(cache) {
+  imagesSinceTrim++
+  if (imagesSinceTrim < TRIM_INTERVAL) return
+  imagesSinceTrim = 0
+
+  const keys = await cache.keys()
+  for (const key of keys.slice(0, Math.max(keys.length - MAX_CACHED_IMAGES, 0))) {
+    await cache.delete(key)
+  }
+}
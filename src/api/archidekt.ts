@@ -1,6 +1,7 @@
-const ARCHIDEKT_API = 'https://archidekt.com/api'
-// CORS proxy to bypass browser restrictions (Archidekt doesn't allow cross-origin requests)
-const CORS_PROXY = 'https://corsproxy.io/?'
+import { ARCHIDEKT_PROXY_URL, fetchThroughProxy, isJsonObject, isOptionalString } from '@/api/proxy'
+
+// Collections are fetched a page at a time; stop after this many
+const MAX_COLLECTION_PAGES = 100
 
 export interface ArchidektCard {
   card: {
@@ -10,7 +11,17 @@ export interface ArchidektCard {
     uid: string // Scryfall ID
   }
   quantity: number
-  categories: string[]
+  categories?: string[] | null
+}
+
+function isArchidektCard(value: unknown): value is ArchidektCard {
+  return isJsonObject(value) &&
+    typeof value.quantity === 'number' &&
+    (value.categories == null || (Array.isArray(value.categories) && value.categories.every(category => typeof category === 'string'))) &&
+    isJsonObject(value.card) &&
+    typeof value.card.uid === 'string' &&
+    isJsonObject(value.card.oracleCard) &&
+    typeof value.card.oracleCard.name === 'string'
 }
 
 export interface ArchidektDeckResponse {
@@ -37,27 +48,100 @@ export function extractDeckId(input: string): string | null {
 }
 
 /**
- * Fetch deck data from Archidekt API (via CORS proxy)
+ * Fetch deck data from the Archidekt API (via the proxy)
  */
 export async function fetchArchidektDeck(deckId: string): Promise<ArchidektDeckResponse> {
-  const archidektUrl = `${ARCHIDEKT_API}/decks/${deckId}/`
-  const proxyUrl = `${CORS_PROXY}${encodeURIComponent(archidektUrl)}`
+  const data = await fetchThroughProxy(
+    `${ARCHIDEKT_PROXY_URL}/decks/${deckId}/`,
+    'Archidekt',
+    'Deck not found. Please check the URL or ID.'
+  )
+  if (!isJsonObject(data) || typeof data.name !== 'string') {
+    throw new Error('Archidekt sent the deck in a format this app does not recognize.')
+  }
 
-  const response = await fetch(proxyUrl)
+  // Cards missing the fields the app reads are left out
+  const items: unknown[] = Array.isArray(data.cards) ? data.cards : []
+  const cards = items.filter(isArchidektCard)
+  if (cards.length < items.length) {
+    console.warn(`Skipped ${items.length - cards.length} unrecognized card(s) in Archidekt deck ${deckId}`)
+  }
+  return { name: data.name, cards }
+}
 
-  if (!response.ok) {
-    if (response.status === 404) {
-      throw new Error('Deck not found. Please check the URL or ID.')
-    }
-    throw new Error(`Failed to fetch deck: ${response.status} ${response.statusText}`)
+// A card in an Archidekt collection
+export interface ArchidektCollectionCard {
+  quantity: number
+  modifier?: string | null     // Normal, Foil or Etched
+  condition?: string | null
+  language?: string | null
+  card: {
+    uid?: string | null        // Scryfall ID
+    collectorNumber?: string | null
+    edition?: {
+      editioncode?: string | null
+      editionname?: string | null
+    } | null
+    oracleCard?: {
+      name: string
+    } | null
   }
+}
+
+export function isArchidektCollectionCard(value: unknown): value is ArchidektCollectionCard {
+  if (!isJsonObject(value) || typeof value.quantity !== 'number' || !isJsonObject(value.card)) return false
+  const { card } = value
+  return isOptionalString(value.modifier) &&
+    isOptionalString(value.condition) &&
+    isOptionalString(value.language) &&
+    isOptionalString(card.uid) &&
+    isOptionalString(card.collectorNumber) &&
+    (card.edition == null || (isJsonObject(card.edition) &&
+      isOptionalString(card.edition.editioncode) && isOptionalString(card.edition.editionname))) &&
+    (card.oracleCard == null || (isJsonObject(card.oracleCard) && typeof card.oracleCard.name === 'string'))
+}
+
+/**
+ * Extract collection ID from an Archidekt collection URL or raw ID
+ * Handles: https://archidekt.com/collection/v2/123456
+ * Handles: 123456
+ */
+export function extractCollectionId(input: string): string | null {
+  const trimmed = input.trim()
+
+  const urlMatch = trimmed.match(/archidekt\.com\/collection\/(?:v2\/)?(\d+)/)
+  if (urlMatch && urlMatch[1]) return urlMatch[1]
+
+  if (/^\d+$/.test(trimmed)) return trimmed
 
-  const data = await response.json()
+  return null
+}
 
-  return {
-    name: data.name,
-    cards: data.cards || []
+/**
+ * Fetch every card of a public Archidekt collection (via the proxy)
+ */
+export async function fetchArchidektCollection(collectionId: string): Promise<ArchidektCollectionCard[]> {
+  const cards: ArchidektCollectionCard[] = []
+  let skipped = 0
+  for (let page = 1; page <= MAX_COLLECTION_PAGES; page++) {
+    const data = await fetchThroughProxy(
+      `${ARCHIDEKT_PROXY_URL}/collection/v2/${collectionId}/?page=${page}`,
+      'Archidekt',
+      'Collection not found. Please check the URL and that the collection is public.'
+    )
+    if (!isJsonObject(data)) {
+      throw new Error('Archidekt sent the collection in a format this app does not recognize.')
+    }
+    const items: unknown[] = Array.isArray(data.results) ? data.results : []
+    const pageCards = items.filter(isArchidektCollectionCard)
+    skipped += items.length - pageCards.length
+    cards.push(...pageCards)
+    if (!data.next) break
+  }
+  if (skipped > 0) {
+    console.warn(`Skipped ${skipped} unrecognized card(s) in Archidekt collection ${collectionId}`)
   }
+  return cards
 }
 
 /**
@@ -73,6 +157,6 @@ export function convertArchidektCards(archidektCards: ArchidektCard[]): Array<{
     scryfallId: ac.card.uid,
     name: ac.card.oracleCard.name,
     quantity: ac.quantity,
-    category: ac.categories[0] || 'Other'
+    category: ac.categories?.[0] || 'Other'
   }))
 }
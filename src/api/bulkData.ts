@@ -0,0 +1,215 @@
+import type { ScryfallSet, ScryfallCard } from '@/types'
+import { openDatabase } from '@/utils/database'
+import { toScryfallCard, toCachedCard, sortByCollectorNumber, type CachedSetCards } from '@/api/scryfall'
+
+// Cards are written to IndexedDB in batches of this size while the file is read
+const WRITE_BATCH_SIZE = 1000
+
+export interface BulkImportProgress {
+  bytesRead: number
+  totalBytes: number
+  cardsImported: number
+}
+
+export interface BulkImportResult {
+  cardsImported: number
+  setsImported: number
+  skipped: number  // Non-English printings and non-card objects
+}
+
+const OPEN_BRACE = 0x7b
+const CLOSE_BRACE = 0x7d
+const OPEN_BRACKET = 0x5b
+const CLOSE_BRACKET = 0x5d
+const QUOTE = 0x22
+const BACKSLASH = 0x5c
+
+/**
+ * Read a JSON array file in chunks and yield each top-level element as it is
+ * completed, so files of several hundred megabytes never have to be held in
+ * memory or parsed in one go.
+ */
+async function* streamJsonArray(
+  file: File,
+  onBytesRead: (bytesRead: number) => void,
+  signal?: AbortSignal
+): AsyncGenerator<Record<string, unknown>> {
+  const reader = file.stream().getReader()
+  const decoder = new TextDecoder()
+
+  let bytesRead = 0
+  let depth = 0
+  let inString = false
+  let escaped = false
+  let pending = ''  // Start of an element that continues in the next chunk
+
+  try {
+    while (true) {
+      if (signal?.aborted) {
+        throw new Error('Import cancelled')
+      }
+
+      const { done, value } = await reader.read()
+      if (done) break
+
+      bytesRead += value.byteLength
+      const text = decoder.decode(value, { stream: true })
+      let start = depth > 1 ? 0 : -1
+      const elements: Record<string, unknown>[] = []
+
+      for (let i = 0; i < text.length; i++) {
+        const char = text.charCodeAt(i)
+
+        if (inString) {
+          if (escaped) {
+            escaped = false
+          } else if (char === BACKSLASH) {
+            escaped = true
+          } else if (char === QUOTE) {
+            inString = false
+          }
+          continue
+        }
+
+        if (char === QUOTE) {
+          inString = true
+        } else if (char === OPEN_BRACE || char === OPEN_BRACKET) {
+          if (depth === 0 && char === OPEN_BRACE) {
+            throw new Error('This is not a Scryfall bulk data file. Expected a list of cards.')
+          }
+          if (depth === 1) start = i
+          depth++
+        } else if (char === CLOSE_BRACE || char === CLOSE_BRACKET) {
+          depth--
+          if (depth === 1) {
+            elements.push(JSON.parse(pending + text.slice(start, i + 1)))
+            pending = ''
+            start = -1
+          }
+        }
+      }
+
+      if (depth > 1) {
+        pending += text.slice(start)
+      }
+
+      onBytesRead(bytesRead)
+      yield* elements
+    }
+  } finally {
+    reader.releaseLock()
+  }
+
+  if (depth !== 0) {
+    throw new Error('The file ended unexpectedly. It may be incomplete.')
+  }
+}
+
+function putRecords(storeName: string, records: unknown[]): Promise<void> {
+  if (records.length === 0) return Promise.resolve()
+
+  return openDatabase().then(db => new Promise<void>((resolve, reject) => {
+    const transaction = db.transaction(storeName, 'readwrite')
+    const store = transaction.objectStore(storeName)
+    for (const record of records) {
+      store.put(record)
+    }
+    transaction.oncomplete = () => resolve()
+    transaction.onerror = () => reject(transaction.error)
+  }))
+}
+
+function getCachedSetCodes(): Promise<Set<string>> {
+  return openDatabase().then(db => new Promise<Set<string>>((resolve, reject) => {
+    const request = db.transaction('sets', 'readonly').objectStore('sets').getAllKeys()
+    request.onerror = () => reject(request.error)
+    request.onsuccess = () => resolve(new Set(request.result as string[]))
+  }))
+}
+
+// Build set records from the set fields every card object carries.
+// The bulk file has no set icons, so the icon URL follows Scryfall's naming.
+function toScryfallSet(setCode: string, cards: ScryfallCard[], details: { releasedAt: string; setType: string }): ScryfallSet {
+  return {
+    code: setCode,
+    name: cards[0]?.set_name ?? setCode.toUpperCase(),
+    released_at: details.releasedAt,
+    set_type: details.setType,
+    card_count: cards.length,
+    icon_svg_uri: `https://svgs.scryfall.io/sets/${setCode}.svg`
+  }
+}
+
+/**
+ * Import a Scryfall bulk data file (`default-cards` or `all-cards`) into the
+ * card cache. Each set gets a complete card list, so sets, set card lists and
+ * card lookups work without network access afterwards. Only English printings
+ * are kept, matching what the API returns for a set.
+ */
+export async function importBulkData(
+  file: File,
+  onProgress?: (progress: BulkImportProgress) => void,
+  signal?: AbortSignal
+): Promise<BulkImportResult> {
+  // Treat the data as fetched when the file was downloaded, so it expires on schedule
+  const cachedAt = file.lastModified || Date.now()
+
+  const cardsBySet = new Map<string, ScryfallCard[]>()
+  const setDetails = new Map<string, { releasedAt: string; setType: string }>()
+  let batch: unknown[] = []
+  let cardsImported = 0
+  let skipped = 0
+  let bytesRead = 0
+
+  const report = () => onProgress?.({ bytesRead, totalBytes: file.size, cardsImported })
+
+  for await (const element of streamJsonArray(file, read => { bytesRead = read }, signal)) {
+    if (element.object !== 'card' || (element.lang !== undefined && element.lang !== 'en')) {
+      skipped++
+      continue
+    }
+
+    const card = toScryfallCard(element)
+    const setCards = cardsBySet.get(card.set) ?? []
+    setCards.push(card)
+    cardsBySet.set(card.set, setCards)
+    if (!setDetails.has(card.set)) {
+      setDetails.set(card.set, {
+        releasedAt: String(element.released_at ?? ''),
+        setType: String(element.set_type ?? '')
+      })
+    }
+
+    batch.push(toCachedCard(card, cachedAt))
+    cardsImported++
+
+    if (batch.length >= WRITE_BATCH_SIZE) {
+      await putRecords('cards', batch)
+      batch = []
+      report()
+    }
+  }
+
+  await putRecords('cards', batch)
+  report()
+
+  if (cardsImported === 0) {
+    throw new Error('No English cards were found in this file.')
+  }
+
+  const setCardLists: CachedSetCards[] = [...cardsBySet].map(([setCode, cards]) => ({
+    setCode,
+    cards: sortByCollectorNumber(cards),
+    cachedAt
+  }))
+  await putRecords('setCards', setCardLists)
+
+  // Keep set records from the API, which have the real icons and card counts
+  const cachedSetCodes = await getCachedSetCodes()
+  const newSets = [...cardsBySet]
+    .filter(([setCode]) => !cachedSetCodes.has(setCode))
+    .map(([setCode, cards]) => ({ ...toScryfallSet(setCode, cards, setDetails.get(setCode)!), cachedAt }))
+  await putRecords('sets', newSets)
+
+  return { cardsImported, setsImported: cardsBySet.size, skipped }
+}
@@ -0,0 +1,206 @@
+import type { ScryfallCard } from '@/types'
+import { openDatabase } from '@/utils/database'
+import {
+  isCacheStale,
+  refreshCards,
+  refreshSetCards,
+  type CachedCard,
+  type CachedSetCards
+} from '@/api/scryfall'
+
+// Scryfall collection endpoint accepts max 75 cards per request
+const REHYDRATE_BATCH_SIZE = 75
+
+export interface SetCacheEntry {
+  setCode: string
+  setName: string
+  hasCardList: boolean          // The set's full card list is cached, not just individual cards
+  cardCount: number             // Cards from this set in the card cache
+  incompleteCount: number
+  cachedAt: number | null       // Oldest fetch time, null if it predates timestamps
+  isStale: boolean
+  sizeBytes: number             // Approximate size of the set's cache entries
+}
+
+export interface CacheSummary {
+  sets: SetCacheEntry[]
+  cardCount: number
+  incompleteCount: number
+  sizeBytes: number
+}
+
+// Cards cached before these fields were fetched can't be matched by type or color searches.
+// Reversible cards have no top-level type line, only one per face.
+export function isIncompleteCard(card: ScryfallCard): boolean {
+  return !(card.type_line || card.card_faces?.[0]?.type_line) || !card.color_identity
+}
+
+function getAllRecords<T>(storeName: string): Promise<T[]> {
+  return openDatabase().then(db => new Promise<T[]>((resolve, reject) => {
+    const request = db.transaction(storeName, 'readonly').objectStore(storeName).getAll()
+    request.onerror = () => reject(request.error)
+    request.onsuccess = () => resolve(request.result as T[])
+  }))
+}
+
+function estimateSize(value: unknown): number {
+  return JSON.stringify(value).length
+}
+
+// Per-set age, size and completeness of the cached Scryfall data
+export async function getCacheSummary(): Promise<CacheSummary> {
+  const [setCardLists, cards] = await Promise.all([
+    getAllRecords<CachedSetCards>('setCards'),
+    getAllRecords<CachedCard>('cards')
+  ])
+
+  const entries = new Map<string, SetCacheEntry>()
+  const getEntry = (setCode: string, setName: string): SetCacheEntry => {
+    let entry = entries.get(setCode)
+    if (!entry) {
+      entry = {
+        setCode,
+        setName,
+        hasCardList: false,
+        cardCount: 0,
+        incompleteCount: 0,
+        cachedAt: null,
+        isStale: false,
+        sizeBytes: 0
+      }
+      entries.set(setCode, entry)
+    }
+    return entry
+  }
+
+  for (const list of setCardLists) {
+    const entry = getEntry(list.setCode, list.cards[0]?.set_name ?? list.setCode.toUpperCase())
+    entry.hasCardList = true
+    entry.cachedAt = list.cachedAt
+    entry.sizeBytes += estimateSize(list)
+  }
+
+  const undatedSets = new Set<string>()
+  for (const card of cards) {
+    const entry = getEntry(card.set, card.set_name)
+    entry.cardCount++
+    entry.sizeBytes += estimateSize(card)
+    if (isIncompleteCard(card)) entry.incompleteCount++
+    if (entry.hasCardList) continue
+    if (card.cachedAt === undefined) {
+      undatedSets.add(card.set)
+    } else if (entry.cachedAt === null || card.cachedAt < entry.cachedAt) {
+      entry.cachedAt = card.cachedAt
+    }
+  }
+
+  const sets = [...entries.values()]
+  for (const entry of sets) {
+    if (undatedSets.has(entry.setCode)) entry.cachedAt = null
+    entry.isStale = isCacheStale(entry.cachedAt ?? undefined)
+  }
+  sets.sort((a, b) => a.setName.localeCompare(b.setName))
+
+  return {
+    sets,
+    cardCount: cards.length,
+    incompleteCount: sets.reduce((sum, entry) => sum + entry.incompleteCount, 0),
+    sizeBytes: sets.reduce((sum, entry) => sum + entry.sizeBytes, 0)
+  }
+}
+
+// Remove the cached card list and every cached card of the given sets.
+// They are downloaded again the next time they're needed.
+export async function evictSets(setCodes: string[]): Promise<void> {
+  if (setCodes.length === 0) return
+  const codes = new Set(setCodes)
+
+  const db = await openDatabase()
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(['setCards', 'cards'], 'readwrite')
+    const setCardsStore = transaction.objectStore('setCards')
+    for (const setCode of codes) {
+      setCardsStore.delete(setCode)
+    }
+
+    const setIndex = transaction.objectStore('cards').index('set')
+    for (const setCode of codes) {
+      const cursorRequest = setIndex.openCursor(IDBKeyRange.only(setCode))
+      cursorRequest.onsuccess = () => {
+        const cursor = cursorRequest.result
+        if (!cursor) return
+        cursor.delete()
+        cursor.continue()
+      }
+    }
+
+    transaction.oncomplete = () => resolve()
+    transaction.onerror = () => reject(transaction.error)
+  })
+}
+
+// Remove all cached Scryfall data. User data lives in the same database and is left untouched.
+export async function evictAll(): Promise<void> {
+  const db = await openDatabase()
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(['sets', 'cards', 'setCards'], 'readwrite')
+    transaction.objectStore('sets').clear()
+    transaction.objectStore('cards').clear()
+    transaction.objectStore('setCards').clear()
+
+    transaction.oncomplete = () => resolve()
+    transaction.onerror = () => reject(transaction.error)
+  })
+}
+
+// Download fresh card lists for the given sets, one at a time
+export async function refreshSetCardLists(
+  setCodes: string[],
+  onProgress?: (done: number, total: number) => void
+): Promise<void> {
+  for (let i = 0; i < setCodes.length; i++) {
+    await refreshSetCards(setCodes[i]!)
+    onProgress?.(i + 1, setCodes.length)
+  }
+}
+
+/**
+ * Re-fetch every cached card that's missing fields added in later versions.
+ * Sets whose full card list contains incomplete cards are downloaded again;
+ * other incomplete cards are fetched in batches. Returns how many incomplete
+ * cards were in the cache.
+ */
+export async function rehydrateIncompleteCards(
+  onProgress?: (done: number, total: number) => void
+): Promise<number> {
+  const [setCardLists, cards] = await Promise.all([
+    getAllRecords<CachedSetCards>('setCards'),
+    getAllRecords<CachedCard>('cards')
+  ])
+
+  const setCodes = setCardLists
+    .filter(list => list.cards.some(isIncompleteCard))
+    .map(list => list.setCode)
+  const refreshedSets = new Set(setCodes)
+  const cardIds = cards
+    .filter(card => isIncompleteCard(card) && !refreshedSets.has(card.set))
+    .map(card => card.id)
+
+  const batches: string[][] = []
+  for (let i = 0; i < cardIds.length; i += REHYDRATE_BATCH_SIZE) {
+    batches.push(cardIds.slice(i, i + REHYDRATE_BATCH_SIZE))
+  }
+
+  const total = setCodes.length + batches.length
+  let done = 0
+  for (const setCode of setCodes) {
+    await refreshSetCards(setCode)
+    onProgress?.(++done, total)
+  }
+  for (const batch of batches) {
+    await refreshCards(batch)
+    onProgress?.(++done, total)
+  }
+
+  return cards.filter(isIncompleteCard).length
+}
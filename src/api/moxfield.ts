@@ -0,0 +1,73 @@
+import { MOXFIELD_PROXY_URL, fetchThroughProxy, isJsonObject, isOptionalString } from '@/api/proxy'
+
+const PAGE_SIZE = 1000
+// Collections are fetched a page at a time; stop after this many
+const MAX_COLLECTION_PAGES = 100
+
+// A card in a Moxfield collection
+export interface MoxfieldCollectionCard {
+  quantity: number
+  finish?: string | null       // nonFoil, foil or etched
+  isFoil?: boolean | null
+  condition?: string | null
+  language?: string | null
+  card: {
+    scryfall_id?: string | null
+    name: string
+    set?: string | null
+    cn?: string | null
+  }
+}
+
+export function isMoxfieldCollectionCard(value: unknown): value is MoxfieldCollectionCard {
+  if (!isJsonObject(value) || typeof value.quantity !== 'number' || !isJsonObject(value.card)) return false
+  const { card } = value
+  return isOptionalString(value.finish) &&
+    (value.isFoil == null || typeof value.isFoil === 'boolean') &&
+    isOptionalString(value.condition) &&
+    isOptionalString(value.language) &&
+    typeof card.name === 'string' &&
+    isOptionalString(card.scryfall_id) &&
+    isOptionalString(card.set) &&
+    isOptionalString(card.cn)
+}
+
+/**
+ * Extract collection ID from a Moxfield collection URL or raw ID
+ * Handles: https://www.moxfield.com/collection/AbC123xyz
+ */
+export function extractMoxfieldCollectionId(input: string): string | null {
+  const trimmed = input.trim()
+
+  const urlMatch = trimmed.match(/moxfield\.com\/collection\/([A-Za-z0-9_-]+)/)
+  if (urlMatch && urlMatch[1]) return urlMatch[1]
+
+  return null
+}
+
+/**
+ * Fetch every card of a public Moxfield collection (via the proxy)
+ */
+export async function fetchMoxfieldCollection(collectionId: string): Promise<MoxfieldCollectionCard[]> {
+  const cards: MoxfieldCollectionCard[] = []
+  let skipped = 0
+  for (let page = 1; page <= MAX_COLLECTION_PAGES; page++) {
+    const data = await fetchThroughProxy(
+      `${MOXFIELD_PROXY_URL}/v1/collections/search/${collectionId}?pageNumber=${page}&pageSize=${PAGE_SIZE}`,
+      'Moxfield',
+      'Collection not found. Please check the URL and that the collection is public.'
+    )
+    if (!isJsonObject(data)) {
+      throw new Error('Moxfield sent the collection in a format this app does not recognize.')
+    }
+    const items: unknown[] = Array.isArray(data.data) ? data.data : []
+    const pageCards = items.filter(isMoxfieldCollectionCard)
+    skipped += items.length - pageCards.length
+    cards.push(...pageCards)
+    if (page >= (typeof data.totalPages === 'number' ? data.totalPages : 1)) break
+  }
+  if (skipped > 0) {
+    console.warn(`Skipped ${skipped} unrecognized card(s) in Moxfield collection ${collectionId}`)
+  }
+  return cards
+}
@@ -0,0 +1,53 @@
+import { fetchFromNetwork, networkStatus } from '@/utils/network'
+
+// Requests to sites that don't allow cross-origin requests go through our own
+// proxies in netlify/functions. The VITE_*_PROXY_URL variables point at ones hosted elsewhere.
+
+export const ARCHIDEKT_PROXY_URL = (import.meta.env.VITE_ARCHIDEKT_PROXY_URL ?? '/api/archidekt').replace(/\/$/, '')
+export const MOXFIELD_PROXY_URL = (import.meta.env.VITE_MOXFIELD_PROXY_URL ?? '/api/moxfield').replace(/\/$/, '')
+
+// Proxied responses are checked before use - upstream APIs change without notice
+export function isJsonObject(value: unknown): value is Record<string, unknown> {
+  return !!value && typeof value === 'object' && !Array.isArray(value)
+}
+
+// Optional text fields may be left out or null
+export function isOptionalString(value: unknown): value is string | null | undefined {
+  return value === undefined || value === null || typeof value === 'string'
+}
+
+/**
+ * Fetch JSON through a proxy, turning its failures into messages for the user.
+ * `notFound` is the message for a 404 from the upstream.
+ */
+export async function fetchThroughProxy(url: string, upstream: string, notFound: string): Promise<unknown> {
+  let response: Response
+  try {
+    response = await fetchFromNetwork(url)
+  } catch (error) {
+    // Offline: leave it to the caller to queue or report
+    if (!networkStatus.online) throw error
+    throw new Error(`Could not reach the ${upstream} import proxy. Check your connection or the proxy URL.`)
+  }
+
+  if (!response.ok) {
+    switch (response.status) {
+      case 404:
+        throw new Error(notFound)
+      case 429:
+        throw new Error(`${upstream} is limiting requests right now. Please try again in a minute.`)
+      case 502:
+      case 504:
+        throw new Error(`${upstream} is not responding right now. Please try again later.`)
+      default:
+        throw new Error(`Failed to fetch from ${upstream}: ${response.status} ${response.statusText}`)
+    }
+  }
+
+  // Without a proxy deployed, the request falls through to the app's own index.html
+  if (!response.headers.get('Content-Type')?.includes('json')) {
+    throw new Error(`The ${upstream} import proxy is not available at this address.`)
+  }
+
+  return response.json()
+}
@@ -1,46 +1,128 @@
-import type { ScryfallSet, ScryfallCard } from '@/types'
+import { reactive } from 'vue'
+import type { ScryfallSet, ScryfallCard, CardPrices } from '@/types'
+import { openDatabase } from '@/utils/database'
+import { fetchFromNetwork, networkStatus } from '@/utils/network'
+import { getCardIndexKeys, type CardIndexKeys } from '@/utils/cardIndex'
 
 const BASE_URL = 'https://api.scryfall.com'
-const DB_NAME = 'spellbinder-cache'
-const DB_VERSION = 2 // Updated to match binderImages.ts
 
-interface CachedSetCards {
+const MAX_AGE_STORAGE_KEY = 'spellbinder-card-cache-max-age-days'
+export const DEFAULT_CACHE_MAX_AGE_DAYS = 30
+const DAY_MS = 24 * 60 * 60 * 1000
+
+const SEARCH_RESULT_LIMIT = 20
+
+// Don't retry background refreshes for a while after one fails (e.g. while offline)
+const REFRESH_RETRY_DELAY_MS = 5 * 60 * 1000
+
+export interface CachedSetCards {
   setCode: string
   cards: ScryfallCard[]
   cachedAt: number
 }
 
-function openDatabase(): Promise<IDBDatabase> {
-  return new Promise((resolve, reject) => {
-    const request = indexedDB.open(DB_NAME, DB_VERSION)
+// Records in the sets and cards stores carry the time they were fetched.
+// Records cached before this was tracked have no timestamp and count as stale.
+// Card records also carry the keys the cards store is indexed by.
+export type CachedSet = ScryfallSet & { cachedAt?: number }
+export type CachedCard = ScryfallCard & { cachedAt?: number } & Partial<CardIndexKeys>
 
-    request.onerror = () => reject(request.error)
-    request.onsuccess = () => resolve(request.result)
+// Background refreshes currently in progress
+export const cacheRefreshStatus = reactive<{ setCodes: string[]; cardCount: number }>({
+  setCodes: [],
+  cardCount: 0
+})
 
-    request.onupgradeneeded = (event) => {
-      const db = (event.target as IDBOpenDBRequest).result
+let lastRefreshFailureAt = 0
 
-      if (!db.objectStoreNames.contains('sets')) {
-        db.createObjectStore('sets', { keyPath: 'code' })
-      }
+// How many days cached card data is used before it's refreshed. 0 means it never expires.
+export function getCacheMaxAgeDays(): number {
+  const days = parseInt(localStorage.getItem(MAX_AGE_STORAGE_KEY) ?? '', 10)
+  return Number.isNaN(days) || days < 0 ? DEFAULT_CACHE_MAX_AGE_DAYS : days
+}
 
-      if (!db.objectStoreNames.contains('cards')) {
-        db.createObjectStore('cards', { keyPath: 'id' })
-      }
+export function setCacheMaxAgeDays(days: number): void {
+  localStorage.setItem(MAX_AGE_STORAGE_KEY, String(days))
+}
 
-      if (!db.objectStoreNames.contains('setCards')) {
-        db.createObjectStore('setCards', { keyPath: 'setCode' })
-      }
+export function isCacheStale(cachedAt: number | undefined): boolean {
+  const maxAgeDays = getCacheMaxAgeDays()
+  if (maxAgeDays === 0) return false
+  return cachedAt === undefined || Date.now() - cachedAt > maxAgeDays * DAY_MS
+}
 
-      // Add binderImages store (for v2 upgrade)
-      if (!db.objectStoreNames.contains('binderImages')) {
-        db.createObjectStore('binderImages', { keyPath: 'binderId' })
-      }
-    }
-  })
+function canRefreshInBackground(): boolean {
+  return Date.now() - lastRefreshFailureAt > REFRESH_RETRY_DELAY_MS
+}
+
+function optionalString(value: unknown): string | undefined {
+  return typeof value === 'string' ? value : undefined
+}
+
+function optionalNumber(value: unknown): number | undefined {
+  return typeof value === 'number' ? value : undefined
 }
 
-async function getCachedSets(): Promise<ScryfallSet[] | null> {
+function optionalStringArray(value: unknown): string[] | undefined {
+  return Array.isArray(value) ? value.filter((item): item is string => typeof item === 'string') : undefined
+}
+
+// Scryfall sends prices as decimal strings, or null when there's no market data
+function toCardPrices(prices: unknown): CardPrices | undefined {
+  if (typeof prices !== 'object' || prices === null) return undefined
+  const values = prices as Record<string, unknown>
+  const result: CardPrices = { updatedAt: Date.now() }
+  for (const key of ['usd', 'usd_foil', 'eur', 'eur_foil'] as const) {
+    const amount = parseFloat(optionalString(values[key]) ?? '')
+    if (!Number.isNaN(amount)) result[key] = amount
+  }
+  return result
+}
+
+// Keep only the fields the app uses from a Scryfall API card object
+export function toScryfallCard(card: Record<string, unknown>): ScryfallCard {
+  return {
+    id: String(card.id),
+    name: String(card.name),
+    collector_number: String(card.collector_number),
+    set: String(card.set),
+    set_name: String(card.set_name),
+    mtgo_id: optionalNumber(card.mtgo_id),
+    rarity: String(card.rarity),
+    type_line: optionalString(card.type_line) ?? '',
+    oracle_text: optionalString(card.oracle_text),
+    mana_cost: optionalString(card.mana_cost),
+    cmc: optionalNumber(card.cmc),
+    colors: optionalStringArray(card.colors),
+    color_identity: optionalStringArray(card.color_identity),
+    power: optionalString(card.power),
+    toughness: optionalString(card.toughness),
+    loyalty: optionalString(card.loyalty),
+    image_uris: card.image_uris as ScryfallCard['image_uris'],
+    card_faces: card.card_faces as ScryfallCard['card_faces'],
+    prices: toCardPrices(card.prices)
+  }
+}
+
+function stripCachedAt<T extends { cachedAt?: number }>(record: T): Omit<T, 'cachedAt'> {
+  const copy = { ...record }
+  delete copy.cachedAt
+  return copy
+}
+
+export function toCachedCard(card: ScryfallCard, cachedAt: number): CachedCard {
+  return { ...card, ...getCardIndexKeys(card), cachedAt }
+}
+
+function fromCachedCard(record: CachedCard): ScryfallCard {
+  const card = stripCachedAt(record)
+  delete card.printingKey
+  delete card.names
+  delete card.nameSuffixes
+  return card
+}
+
+async function getCachedSets(): Promise<CachedSet[] | null> {
   const db = await openDatabase()
   return new Promise((resolve, reject) => {
     const transaction = db.transaction('sets', 'readonly')
@@ -49,7 +131,7 @@ async function getCachedSets(): Promise<ScryfallSet[] | null> {
 
     request.onerror = () => reject(request.error)
     request.onsuccess = () => {
-      const sets = request.result as ScryfallSet[]
+      const sets = request.result as CachedSet[]
       resolve(sets.length > 0 ? sets : null)
     }
   })
@@ -57,12 +139,13 @@ async function getCachedSets(): Promise<ScryfallSet[] | null> {
 
 async function cacheSets(sets: ScryfallSet[]): Promise<void> {
   const db = await openDatabase()
+  const cachedAt = Date.now()
   return new Promise((resolve, reject) => {
     const transaction = db.transaction('sets', 'readwrite')
     const store = transaction.objectStore('sets')
 
     for (const set of sets) {
-      store.put(set)
+      store.put({ ...set, cachedAt })
     }
 
     transaction.oncomplete = () => resolve()
@@ -70,7 +153,7 @@ async function cacheSets(sets: ScryfallSet[]): Promise<void> {
   })
 }
 
-async function getCachedSetCards(setCode: string): Promise<ScryfallCard[] | null> {
+async function getCachedSetCards(setCode: string): Promise<CachedSetCards | null> {
   const db = await openDatabase()
   return new Promise((resolve, reject) => {
     const transaction = db.transaction('setCards', 'readonly')
@@ -79,8 +162,7 @@ async function getCachedSetCards(setCode: string): Promise<ScryfallCard[] | null
 
     request.onerror = () => reject(request.error)
     request.onsuccess = () => {
-      const cached = request.result as CachedSetCards | undefined
-      resolve(cached?.cards ?? null)
+      resolve((request.result as CachedSetCards | undefined) ?? null)
     }
   })
 }
@@ -100,7 +182,7 @@ async function cacheSetCards(setCode: string, cards: ScryfallCard[]): Promise<vo
     setCardsStore.put(cachedSetCards)
 
     for (const card of cards) {
-      cardsStore.put(card)
+      cardsStore.put(toCachedCard(card, cachedSetCards.cachedAt))
     }
 
     transaction.oncomplete = () => resolve()
@@ -116,13 +198,16 @@ export async function getCachedCard(cardId: string): Promise<ScryfallCard | null
     const request = store.get(cardId)
 
     request.onerror = () => reject(request.error)
-    request.onsuccess = () => resolve(request.result ?? null)
+    request.onsuccess = () => {
+      const cached = request.result as CachedCard | undefined
+      resolve(cached ? fromCachedCard(cached) : null)
+    }
   })
 }
 
-async function getCardsFromCache(cardIds: string[]): Promise<Map<string, ScryfallCard>> {
+async function getCardsFromCache(cardIds: string[]): Promise<Map<string, CachedCard>> {
   const db = await openDatabase()
-  const cardMap = new Map<string, ScryfallCard>()
+  const cardMap = new Map<string, CachedCard>()
 
   return new Promise((resolve, reject) => {
     const transaction = db.transaction('cards', 'readonly')
@@ -159,7 +244,7 @@ async function fetchCardsByIds(cardIds: string[]): Promise<ScryfallCard[]> {
   }
 
   for (const chunk of chunks) {
-    const response = await fetch(`${BASE_URL}/cards/collection`, {
+    const response = await fetchFromNetwork(`${BASE_URL}/cards/collection`, {
       method: 'POST',
       headers: {
         'Content-Type': 'application/json'
@@ -176,25 +261,7 @@ async function fetchCardsByIds(cardIds: string[]): Promise<ScryfallCard[]> {
 
     const data = await response.json()
     for (const card of data.data) {
-      cards.push({
-        id: card.id,
-        name: card.name,
-        collector_number: card.collector_number,
-        set: card.set,
-        set_name: card.set_name,
-        rarity: card.rarity,
-        type_line: card.type_line,
-        oracle_text: card.oracle_text,
-        mana_cost: card.mana_cost,
-        cmc: card.cmc,
-        colors: card.colors,
-        color_identity: card.color_identity,
-        power: card.power,
-        toughness: card.toughness,
-        loyalty: card.loyalty,
-        image_uris: card.image_uris,
-        card_faces: card.card_faces
-      })
+      cards.push(toScryfallCard(card))
     }
 
     // Rate limiting
@@ -210,12 +277,13 @@ async function cacheCards(cards: ScryfallCard[]): Promise<void> {
   if (cards.length === 0) return
 
   const db = await openDatabase()
+  const cachedAt = Date.now()
   return new Promise((resolve, reject) => {
     const transaction = db.transaction('cards', 'readwrite')
     const store = transaction.objectStore('cards')
 
     for (const card of cards) {
-      store.put(card)
+      store.put(toCachedCard(card, cachedAt))
     }
 
     transaction.oncomplete = () => resolve()
@@ -223,40 +291,211 @@ async function cacheCards(cards: ScryfallCard[]): Promise<void> {
   })
 }
 
+// Fetch cards from the API and update their cache entries
+export async function refreshCards(cardIds: string[]): Promise<ScryfallCard[]> {
+  const cards = await fetchCardsByIds(cardIds)
+  await cacheCards(cards)
+  return cards
+}
+
+const refreshingCardIds = new Set<string>()
+
+function refreshCardsInBackground(cardIds: string[]): void {
+  const ids = cardIds.filter(id => !refreshingCardIds.has(id))
+  if (ids.length === 0 || !canRefreshInBackground()) return
+
+  for (const id of ids) refreshingCardIds.add(id)
+  cacheRefreshStatus.cardCount += ids.length
+  refreshCards(ids)
+    .catch(error => {
+      lastRefreshFailureAt = Date.now()
+      console.warn('Background card refresh failed:', error)
+    })
+    .finally(() => {
+      for (const id of ids) refreshingCardIds.delete(id)
+      cacheRefreshStatus.cardCount -= ids.length
+    })
+}
+
 export async function getCachedCards(cardIds: string[]): Promise<Map<string, ScryfallCard>> {
   if (cardIds.length === 0) {
     return new Map()
   }
 
   // First try to get from cache
-  const cardMap = await getCardsFromCache(cardIds)
+  const cachedCards = await getCardsFromCache(cardIds)
+  const cardMap = new Map<string, ScryfallCard>()
+  const staleIds: string[] = []
+  for (const [id, cached] of cachedCards) {
+    cardMap.set(id, fromCachedCard(cached))
+    if (isCacheStale(cached.cachedAt)) {
+      staleIds.push(id)
+    }
+  }
+
+  // Expired cards are still returned now and updated for next time
+  if (staleIds.length > 0) {
+    refreshCardsInBackground(staleIds)
+  }
 
   // Find missing cards
   const missingIds = cardIds.filter(id => !cardMap.has(id))
 
   if (missingIds.length > 0) {
-    // Fetch missing cards from API
-    const fetchedCards = await fetchCardsByIds(missingIds)
+    try {
+      // Fetch missing cards from API
+      const fetchedCards = await fetchCardsByIds(missingIds)
 
-    // Cache them for future use
-    await cacheCards(fetchedCards)
+      // Cache them for future use
+      await cacheCards(fetchedCards)
 
-    // Add to result map
-    for (const card of fetchedCards) {
-      cardMap.set(card.id, card)
+      // Add to result map
+      for (const card of fetchedCards) {
+        cardMap.set(card.id, card)
+      }
+    } catch (error) {
+      // Offline: return what's available locally
+      console.warn(`Could not fetch ${missingIds.length} uncached cards:`, error)
     }
   }
 
   return cardMap
 }
 
+// A card looked up by printing (set code and collector number) or by name
+export interface CardIdentifier {
+  name?: string
+  set?: string
+  collector_number?: string
+}
+
+function identifierKey(identifier: CardIdentifier): string {
+  return identifier.set && identifier.collector_number
+    ? `printing:${identifier.set.toLowerCase()}|${identifier.collector_number.toLowerCase()}`
+    : `name:${(identifier.name ?? '').toLowerCase()}`
+}
+
+// Keys a card answers to: its printing, its full name and each face name
+function cardKeys(card: ScryfallCard): string[] {
+  const { printingKey, names } = getCardIndexKeys(card)
+  return [`printing:${printingKey}`, ...names.map(name => `name:${name}`)]
+}
+
+// Look each key up in the printing or name index of the cards store
+async function findCardsInCache(keys: Set<string>): Promise<Map<string, ScryfallCard>> {
+  const db = await openDatabase()
+  return new Promise((resolve, reject) => {
+    const found = new Map<string, ScryfallCard>()
+    const transaction = db.transaction('cards', 'readonly')
+    const store = transaction.objectStore('cards')
+
+    for (const key of keys) {
+      const index = store.index(key.startsWith('printing:') ? 'printingKey' : 'names')
+      const request = index.get(key.slice(key.indexOf(':') + 1))
+      request.onsuccess = () => {
+        const cached = request.result as CachedCard | undefined
+        if (cached) found.set(key, fromCachedCard(cached))
+      }
+    }
+
+    transaction.oncomplete = () => resolve(found)
+    transaction.onerror = () => reject(transaction.error)
+  })
+}
+
+async function fetchCardsByIdentifiers(identifiers: CardIdentifier[]): Promise<ScryfallCard[]> {
+  const cards: ScryfallCard[] = []
+
+  for (let i = 0; i < identifiers.length; i += 75) {
+    const chunk = identifiers.slice(i, i + 75)
+    const response = await fetchFromNetwork(`${BASE_URL}/cards/collection`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json'
+      },
+      body: JSON.stringify({ identifiers: chunk })
+    })
+
+    if (!response.ok) {
+      throw new Error(`Failed to look up cards: ${response.statusText}`)
+    }
+
+    const data = await response.json()
+    for (const card of data.data) {
+      cards.push(toScryfallCard(card))
+    }
+
+    // Rate limiting
+    if (i + 75 < identifiers.length) {
+      await new Promise(resolve => setTimeout(resolve, 100))
+    }
+  }
+
+  return cards
+}
+
+/**
+ * Resolve identifiers to cards, in the same order (undefined where nothing matched).
+ * Looks in the local card cache first and asks Scryfall for the rest when online.
+ */
+export async function findCards(identifiers: CardIdentifier[]): Promise<(ScryfallCard | undefined)[]> {
+  const keys = new Set(identifiers.map(identifierKey))
+  const found = await findCardsInCache(keys)
+
+  const missing = identifiers.filter(identifier => !found.has(identifierKey(identifier)))
+  if (missing.length > 0 && networkStatus.online) {
+    const unique = [...new Map(missing.map(identifier => [identifierKey(identifier), identifier])).values()]
+    try {
+      const fetchedCards = await fetchCardsByIdentifiers(unique.map(identifier =>
+        identifier.set && identifier.collector_number
+          ? { set: identifier.set.toLowerCase(), collector_number: identifier.collector_number }
+          : { name: identifier.name }
+      ))
+      await cacheCards(fetchedCards)
+      for (const card of fetchedCards) {
+        for (const key of cardKeys(card)) {
+          if (keys.has(key) && !found.has(key)) found.set(key, card)
+        }
+      }
+    } catch (error) {
+      // Offline or rate limited: keep what the cache had
+      console.warn(`Could not look up ${unique.length} cards:`, error)
+    }
+  }
+
+  return identifiers.map(identifier => found.get(identifierKey(identifier)))
+}
+
 export async function fetchSets(): Promise<ScryfallSet[]> {
   const cached = await getCachedSets()
   if (cached) {
-    return cached
+    // New sets are picked up in the background once the list expires
+    if (cached.some(set => isCacheStale(set.cachedAt)) && canRefreshInBackground()) {
+      refreshSets().catch(error => {
+        lastRefreshFailureAt = Date.now()
+        console.warn('Background set list refresh failed:', error)
+      })
+    }
+    return cached.map(stripCachedAt)
   }
 
-  const response = await fetch(`${BASE_URL}/sets`)
+  return refreshSets()
+}
+
+let setListRefresh: Promise<ScryfallSet[]> | null = null
+
+// Download the list of all sets and replace the cached copy
+export function refreshSets(): Promise<ScryfallSet[]> {
+  if (!setListRefresh) {
+    setListRefresh = downloadSets().finally(() => {
+      setListRefresh = null
+    })
+  }
+  return setListRefresh
+}
+
+async function downloadSets(): Promise<ScryfallSet[]> {
+  const response = await fetchFromNetwork(`${BASE_URL}/sets`)
   if (!response.ok) {
     throw new Error(`Failed to fetch sets: ${response.statusText}`)
   }
@@ -278,15 +517,43 @@ export async function fetchSets(): Promise<ScryfallSet[]> {
 export async function fetchSetCards(setCode: string): Promise<ScryfallCard[]> {
   const cached = await getCachedSetCards(setCode)
   if (cached) {
-    return cached
+    // Expired lists are still used now and updated for next time
+    if (isCacheStale(cached.cachedAt) && canRefreshInBackground()) {
+      refreshSetCards(setCode).catch(error => {
+        lastRefreshFailureAt = Date.now()
+        console.warn(`Background refresh of set ${setCode} failed:`, error)
+      })
+    }
+    return cached.cards
   }
 
+  return refreshSetCards(setCode)
+}
+
+const setRefreshes = new Map<string, Promise<ScryfallCard[]>>()
+
+// Download a set's full card list and replace its cache entry.
+// Concurrent calls for the same set share one download.
+export function refreshSetCards(setCode: string): Promise<ScryfallCard[]> {
+  const existing = setRefreshes.get(setCode)
+  if (existing) return existing
+
+  cacheRefreshStatus.setCodes.push(setCode)
+  const refresh = downloadSetCards(setCode).finally(() => {
+    setRefreshes.delete(setCode)
+    cacheRefreshStatus.setCodes = cacheRefreshStatus.setCodes.filter(code => code !== setCode)
+  })
+  setRefreshes.set(setCode, refresh)
+  return refresh
+}
+
+async function downloadSetCards(setCode: string): Promise<ScryfallCard[]> {
   const cards: ScryfallCard[] = []
   const query = encodeURIComponent(`set:${setCode} include:extras include:variations`)
   let nextUrl: string | null = `${BASE_URL}/cards/search?q=${query}&unique=prints&order=set`
 
   while (nextUrl) {
-    const response = await fetch(nextUrl)
+    const response = await fetchFromNetwork(nextUrl)
     if (!response.ok) {
       if (response.status === 404) {
         break
@@ -297,25 +564,7 @@ export async function fetchSetCards(setCode: string): Promise<ScryfallCard[]> {
     const data = await response.json()
 
     for (const card of data.data) {
-      cards.push({
-        id: card.id,
-        name: card.name,
-        collector_number: card.collector_number,
-        set: card.set,
-        set_name: card.set_name,
-        rarity: card.rarity,
-        type_line: card.type_line,
-        oracle_text: card.oracle_text,
-        mana_cost: card.mana_cost,
-        cmc: card.cmc,
-        colors: card.colors,
-        color_identity: card.color_identity,
-        power: card.power,
-        toughness: card.toughness,
-        loyalty: card.loyalty,
-        image_uris: card.image_uris,
-        card_faces: card.card_faces
-      })
+      cards.push(toScryfallCard(card))
     }
 
     nextUrl = data.has_more ? data.next_page : null
@@ -339,11 +588,71 @@ export function getCardImageUri(card: ScryfallCard, size: 'small' | 'normal' | '
   return null
 }
 
+// Search the locally cached cards. Understands the query forms the app builds:
+// name text (matched from the start of any word), `set:code` and exact names
+// written as `!"name"`. Uses the indexes of the cards store rather than reading every card.
+async function searchLocalCards(query: string): Promise<ScryfallCard[]> {
+  const setCode = query.match(/\bset:(\S+)/i)?.[1]?.toLowerCase()
+  const exactName = query.match(/!"([^"]+)"/)?.[1]?.toLowerCase()
+  const text = query.replace(/\bset:\S+/gi, '').replace(/!"[^"]+"/g, '').trim().toLowerCase()
+
+  const matches = (card: ScryfallCard): boolean => {
+    const name = card.name.toLowerCase()
+    if (setCode && card.set !== setCode) return false
+    // Double-faced cards match on either face name, like Scryfall
+    if (exactName && name !== exactName && !name.split(' // ').includes(exactName)) return false
+    return !text || getCardIndexKeys(card).nameSuffixes.some(suffix => suffix.startsWith(text))
+  }
+
+  if (setCode) {
+    const cachedSet = await getCachedSetCards(setCode)
+    if (cachedSet) {
+      return cachedSet.cards.filter(matches).slice(0, SEARCH_RESULT_LIMIT)
+    }
+  }
+
+  const db = await openDatabase()
+  return new Promise((resolve, reject) => {
+    const results = new Map<string, ScryfallCard>()
+    const store = db.transaction('cards', 'readonly').objectStore('cards')
+    const request = exactName
+      ? store.index('names').openCursor(IDBKeyRange.only(exactName))
+      : text
+        ? store.index('nameSuffixes').openCursor(IDBKeyRange.bound(text, text + '\uffff'))
+        : store.index('set').openCursor(IDBKeyRange.only(setCode ?? ''))
+
+    request.onerror = () => reject(request.error)
+    request.onsuccess = () => {
+      const cursor = request.result
+      if (!cursor || results.size >= SEARCH_RESULT_LIMIT) {
+        resolve([...results.values()])
+        return
+      }
+      const card = fromCachedCard(cursor.value as CachedCard)
+      // A name can reach the same text from more than one word
+      if (!results.has(card.id) && matches(card)) {
+        results.set(card.id, card)
+      }
+      cursor.continue()
+    }
+  })
+}
+
 export async function searchCards(query: string): Promise<ScryfallCard[]> {
   if (!query.trim()) return []
 
+  if (!networkStatus.online) {
+    return searchLocalCards(query)
+  }
+
   const encodedQuery = encodeURIComponent(query)
-  const response = await fetch(`${BASE_URL}/cards/search?q=${encodedQuery}&unique=prints&order=released&dir=asc`)
+  let response: Response
+  try {
+    response = await fetchFromNetwork(`${BASE_URL}/cards/search?q=${encodedQuery}&unique=prints&order=released&dir=asc`)
+  } catch (error) {
+    console.warn('Card search is unavailable, searching cached cards instead:', error)
+    return searchLocalCards(query)
+  }
 
   if (!response.ok) {
     if (response.status === 404) {
@@ -353,25 +662,7 @@ export async function searchCards(query: string): Promise<ScryfallCard[]> {
   }
 
   const data = await response.json()
-  const cards: ScryfallCard[] = data.data.slice(0, 20).map((card: Record<string, unknown>) => ({
-    id: card.id,
-    name: card.name,
-    collector_number: card.collector_number,
-    set: card.set,
-    set_name: card.set_name,
-    rarity: card.rarity,
-    type_line: card.type_line,
-    oracle_text: card.oracle_text,
-    mana_cost: card.mana_cost,
-    cmc: card.cmc,
-    colors: card.colors,
-    color_identity: card.color_identity,
-    power: card.power,
-    toughness: card.toughness,
-    loyalty: card.loyalty,
-    image_uris: card.image_uris as ScryfallCard['image_uris'],
-    card_faces: card.card_faces as ScryfallCard['card_faces']
-  }))
+  const cards: ScryfallCard[] = data.data.slice(0, SEARCH_RESULT_LIMIT).map(toScryfallCard)
 
   // Cache the fetched cards
   await cacheCards(cards)
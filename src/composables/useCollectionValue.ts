@@ -0,0 +1,47 @@
+import type { PriceCurrency, ScryfallCard } from '@/types'
+import { useCollectionStore } from '@/stores'
+import { getCardPrice, priceCurrency } from '@/utils/prices'
+
+export interface ValueSummary {
+  owned: number        // Market value of every owned copy
+  toComplete: number   // Cost of the copies still wanted, skipped slots excluded
+  unpriced: number     // Slots counted without a price for lack of market data
+}
+
+export interface ValuedSlot {
+  entryId: string
+  card: ScryfallCard | undefined
+}
+
+export function useCollectionValue() {
+  const collectionStore = useCollectionStore()
+
+  function summarizeValue(slots: ValuedSlot[], currency: PriceCurrency = priceCurrency.value): ValueSummary {
+    const summary: ValueSummary = { owned: 0, toComplete: 0, unpriced: 0 }
+    for (const { entryId, card } of slots) {
+      let priced = true
+
+      for (const copy of collectionStore.getCopies(entryId)) {
+        const price = card ? getCardPrice(card, copy.finish, currency) : undefined
+        if (price === undefined) priced = false
+        else summary.owned += price
+      }
+
+      if (!collectionStore.isSkipped(entryId)) {
+        const missing = collectionStore.getWantedCount(entryId) - collectionStore.getQualifyingCount(entryId)
+        if (missing > 0) {
+          // Price missing copies in the finish the segment collects
+          const finish = collectionStore.getCopyTarget(entryId)?.finish ?? 'nonfoil'
+          const price = card ? getCardPrice(card, finish, currency) : undefined
+          if (price === undefined) priced = false
+          else summary.toComplete += price * missing
+        }
+      }
+
+      if (!priced) summary.unpriced++
+    }
+    return summary
+  }
+
+  return { summarizeValue }
+}
@@ -48,7 +48,7 @@ export async function calculatePlacements(
   }
 
   // Helper to place a card in a binder at a specific slot
-  function placeCard(card: NonNullable<ReturnType<typeof cardMap.get>>, segmentId: string, cardIndexInSegment: number, binder: Binder, binderIndex: number, slot: number) {
+  function placeCard(card: NonNullable<ReturnType<typeof cardMap.get>>, segmentId: string, entryId: string, binder: Binder, binderIndex: number, slot: number) {
     let pageNumber: number
     let slotOnPage: number
 
@@ -65,7 +65,7 @@ export async function calculatePlacements(
     placements.push({
       card,
       segmentId,
-      cardIndexInSegment,
+      entryId,
       binderId: binder.id,
       binderIndex,
       pageNumber,
@@ -106,11 +106,12 @@ export async function calculatePlacements(
 
     for (let cardIndex = 0; cardIndex < segment.cardIds.length; cardIndex++) {
       const cardId = segment.cardIds[cardIndex]!
+      const entryId = segment.entryIds[cardIndex]!
       const card = cardMap.get(cardId)
       if (!card) continue
 
-      // Check how many spacers are before this card (by index)
-      const spacerCount = segment.spacersBefore[cardIndex] ?? 0
+      // Check how many spacers are before this entry
+      const spacerCount = segment.spacersBefore[entryId] ?? 0
 
       // First, determine which binder will receive this card
       let placementBinder: Binder | null = null
@@ -153,7 +154,7 @@ export async function calculatePlacements(
         }
 
         const slot = binderNextSlot.get(placementBinder.id) ?? 0
-        placeCard(card, segment.id, cardIndex, placementBinder, placementBinderIndex, slot)
+        placeCard(card, segment.id, entryId, placementBinder, placementBinderIndex, slot)
       } else {
         segmentOverflow++
       }
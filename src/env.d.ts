@@ -0,0 +1,7 @@
+/// <reference types="vite/client" />
+
+interface ImportMetaEnv {
+  // Base URLs of the Archidekt and Moxfield proxies, when they aren't served by the app at /api/*
+  readonly VITE_ARCHIDEKT_PROXY_URL?: string
+  readonly VITE_MOXFIELD_PROXY_URL?: string
+}
@@ -3,14 +3,17 @@ import { createPinia } from 'pinia'
 import router from './router'
 import './style.css'
 import App from './App.vue'
-import { migrateBindersToTyped } from './utils/binderMigration'
+import { runMigrations } from './migrations'
+import { registerServiceWorker } from './utils/serviceWorker'
 
-// Run migrations before app initialization
-migrateBindersToTyped()
+registerServiceWorker()
 
-const app = createApp(App)
-const pinia = createPinia()
+// Run migrations before app initialization (stores load from the upgraded database)
+runMigrations().finally(() => {
+  const app = createApp(App)
+  const pinia = createPinia()
 
-app.use(pinia)
-app.use(router)
-app.mount('#app')
+  app.use(pinia)
+  app.use(router)
+  app.mount('#app')
+})
@@ -0,0 +1,178 @@
+import { migrations, CURRENT_SCHEMA_VERSION, type StoredData } from './steps'
+import { openDatabase } from '@/utils/database'
+import { loadAppData, replaceAppData, type AppData } from '@/repositories'
+
+export { CURRENT_SCHEMA_VERSION, type StoredData }
+
+const SCHEMA_VERSION_KEY = 'spellbinder-schema-version'
+
+// Where user data lived before it moved into IndexedDB (schema v6)
+const LEGACY_STORAGE_KEYS = {
+  binders: 'spellbinder-binders',
+  segments: 'spellbinder-segments',
+  plans: 'spellbinder-plans',
+  collection: 'spellbinder-collection',
+  skipped: 'spellbinder-skipped',
+  decks: 'spellbinder-decks'
+} as const
+
+export interface MigrationFailure {
+  version: number
+  description: string
+  message: string
+}
+
+export interface MigrationReport {
+  fromVersion: number
+  toVersion: number
+  applied: string[]
+  failure: MigrationFailure | null
+}
+
+let lastReport: MigrationReport | null = null
+
+export function getSchemaVersion(): number {
+  const stored = localStorage.getItem(SCHEMA_VERSION_KEY)
+  return stored ? parseInt(stored, 10) || 0 : 0
+}
+
+function setSchemaVersion(version: number): void {
+  localStorage.setItem(SCHEMA_VERSION_KEY, String(version))
+}
+
+function errorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : String(error)
+}
+
+function hasLegacyData(): boolean {
+  return Object.values(LEGACY_STORAGE_KEYS).some(key => localStorage.getItem(key) !== null)
+}
+
+function readLegacyData(): StoredData {
+  const read = (key: string) => {
+    const stored = localStorage.getItem(key)
+    return stored ? JSON.parse(stored) : []
+  }
+  return {
+    binders: read(LEGACY_STORAGE_KEYS.binders),
+    segments: read(LEGACY_STORAGE_KEYS.segments),
+    plans: read(LEGACY_STORAGE_KEYS.plans),
+    collection: read(LEGACY_STORAGE_KEYS.collection),
+    skipped: read(LEGACY_STORAGE_KEYS.skipped),
+    decks: read(LEGACY_STORAGE_KEYS.decks)
+  }
+}
+
+function removeLegacyData(): void {
+  for (const key of Object.values(LEGACY_STORAGE_KEYS)) {
+    localStorage.removeItem(key)
+  }
+}
+
+function isEmpty(data: AppData): boolean {
+  return Object.values(data).every(value => Array.isArray(value) ? value.length === 0 : Object.keys(value).length === 0)
+}
+
+// Legacy data only ends up next to database data when an earlier upgrade failed and the
+// app was used anyway, so the user decides which to keep rather than losing their edits
+async function confirmLegacyOverwrite(): Promise<boolean> {
+  if (isEmpty(await loadAppData())) return true
+  return confirm(
+    'Spellbinder found data from an older version that was never upgraded, and newer data saved since then. ' +
+    'Replace the newer data with the older data?\n\n' +
+    'Choose Cancel to keep the newer data; the older data is then discarded.'
+  )
+}
+
+/**
+ * Run data migration steps newer than `fromVersion` over a snapshot, in order.
+ * Stops at the first failing step; `toVersion` is the last step that succeeded.
+ */
+export function migrateData(data: StoredData, fromVersion: number): MigrationReport {
+  const report: MigrationReport = {
+    fromVersion,
+    toVersion: fromVersion,
+    applied: [],
+    failure: null
+  }
+
+  for (const migration of migrations) {
+    if (migration.version <= fromVersion) continue
+
+    try {
+      migration.data?.(data)
+    } catch (error) {
+      report.failure = {
+        version: migration.version,
+        description: migration.description,
+        message: errorMessage(error)
+      }
+      break
+    }
+
+    report.toVersion = migration.version
+    if (migration.data) {
+      report.applied.push(migration.description)
+    }
+  }
+
+  return report
+}
+
+/**
+ * Bring stored data up to the current schema version.
+ * Runs before the app mounts; the result is available via getLastMigrationReport().
+ */
+export async function runMigrations(): Promise<MigrationReport> {
+  const fromVersion = getSchemaVersion()
+  let report: MigrationReport = {
+    fromVersion,
+    toVersion: fromVersion,
+    applied: [],
+    failure: null
+  }
+
+  try {
+    // Opening the database applies any pending IndexedDB upgrades
+    await openDatabase()
+
+    const fromLegacy = hasLegacyData()
+    const hasPendingSteps = migrations.some(migration => migration.version > fromVersion && migration.data)
+    if (fromLegacy || hasPendingSteps) {
+      const data = fromLegacy ? readLegacyData() : await loadAppData() as unknown as StoredData
+      report = migrateData(data, fromVersion)
+      if (report.failure) {
+        // Nothing is written and legacy data is kept, so the upgrade can be retried on the next start
+        report.toVersion = fromVersion
+      } else if (!fromLegacy || await confirmLegacyOverwrite()) {
+        await replaceAppData(data as unknown as AppData)
+        if (fromLegacy) {
+          removeLegacyData()
+        }
+        setSchemaVersion(report.toVersion)
+      } else {
+        // Data in the database was saved by this version of the app, so it needs no upgrade
+        report.applied = []
+        removeLegacyData()
+        report.toVersion = CURRENT_SCHEMA_VERSION
+        setSchemaVersion(report.toVersion)
+      }
+    } else {
+      report.toVersion = CURRENT_SCHEMA_VERSION
+      setSchemaVersion(report.toVersion)
+    }
+  } catch (error) {
+    report.failure ??= {
+      version: CURRENT_SCHEMA_VERSION,
+      description: 'Upgrade local database',
+      message: errorMessage(error)
+    }
+  }
+
+  lastReport = report
+  return report
+}
+
+export function getLastMigrationReport(): MigrationReport | null {
+  return lastReport
+}
@@ -0,0 +1,212 @@
+import { getCardIndexKeys } from '@/utils/cardIndex'
+
+/**
+ * Ordered list of schema migrations.
+ *
+ * Each step has a version and may transform user data (`data`) and/or the
+ * IndexedDB schema (`database`). Data steps run on an in-memory snapshot of
+ * all user data - loaded from the database, from pre-IndexedDB localStorage,
+ * or from a backup being restored - which is then written back in one go.
+ * Steps must be idempotent: data steps may be retried after a failed upgrade,
+ * and database steps may run against a database that already has some stores.
+ */
+export interface Migration {
+  version: number
+  description: string
+  data?: (data: StoredData) => void
+  database?: (db: IDBDatabase, transaction: IDBTransaction) => void
+}
+
+type StoredRecord = Record<string, unknown>
+
+// User data as found in storage, before it is known to match the current types
+export interface StoredData {
+  binders: StoredRecord[]
+  segments: StoredRecord[]
+  plans: StoredRecord[]
+  collection: string[]
+  skipped: string[]
+  quantities?: Record<string, StoredRecord>
+  decks: StoredRecord[]
+  acquisitions?: StoredRecord[]
+  inventory?: StoredRecord[]
+  valueSnapshots?: StoredRecord[]
+}
+
+function createDataStore(db: IDBDatabase, name: string): void {
+  if (!db.objectStoreNames.contains(name)) {
+    db.createObjectStore(name, { keyPath: 'key' })
+  }
+}
+
+export const migrations: Migration[] = [
+  {
+    version: 1,
+    description: 'Create card cache stores',
+    database(db) {
+      if (!db.objectStoreNames.contains('sets')) {
+        db.createObjectStore('sets', { keyPath: 'code' })
+      }
+      if (!db.objectStoreNames.contains('cards')) {
+        db.createObjectStore('cards', { keyPath: 'id' })
+      }
+      if (!db.objectStoreNames.contains('setCards')) {
+        db.createObjectStore('setCards', { keyPath: 'setCode' })
+      }
+    }
+  },
+  {
+    version: 2,
+    description: 'Create binder cover image store',
+    database(db) {
+      if (!db.objectStoreNames.contains('binderImages')) {
+        db.createObjectStore('binderImages', { keyPath: 'binderId' })
+      }
+    }
+  },
+  {
+    version: 3,
+    description: 'Add container type to legacy binders',
+    data(data) {
+      data.binders = data.binders.map(b => (b.type ? b : { ...b, type: 'binder' }))
+    }
+  },
+  {
+    version: 4,
+    description: 'Normalize segment offsets and spacers',
+    data(data) {
+      data.segments = data.segments.map(seg => {
+        // Old spacersBefore format was a list of card IDs - it can't be mapped to indices, start fresh
+        let spacersBefore: Record<number, number> = {}
+        if (seg.spacersBefore && typeof seg.spacersBefore === 'object' && !Array.isArray(seg.spacersBefore)) {
+          spacersBefore = seg.spacersBefore as Record<number, number>
+        }
+        return {
+          ...seg,
+          offset: typeof seg.offset === 'number' ? seg.offset : 0,
+          spacersBefore
+        }
+      })
+    }
+  },
+  {
+    version: 5,
+    description: 'Assign stable entry IDs to segment entries',
+    data(data) {
+      // Old "segmentId:index" keys -> new entry IDs, only for segments converted here
+      const keyMap = new Map<string, string>()
+      data.segments = data.segments.map(seg => {
+        if (Array.isArray(seg.entryIds)) return seg
+
+        const cardIds = Array.isArray(seg.cardIds) ? seg.cardIds : []
+        const entryIds = cardIds.map(() => crypto.randomUUID())
+        entryIds.forEach((entryId, index) => keyMap.set(`${seg.id}:${index}`, entryId))
+
+        const spacersBefore: Record<string, number> = {}
+        const oldSpacers = (seg.spacersBefore ?? {}) as Record<string, number>
+        for (const [index, count] of Object.entries(oldSpacers)) {
+          const entryId = entryIds[Number(index)]
+          if (entryId && count > 0) spacersBefore[entryId] = count
+        }
+        return { ...seg, entryIds, spacersBefore }
+      })
+      if (keyMap.size === 0) return
+
+      data.collection = data.collection.map(key => keyMap.get(key) ?? key)
+      data.skipped = data.skipped.map(key => keyMap.get(key) ?? key)
+      data.decks = data.decks.map(deck => ({
+        ...deck,
+        cards: Array.isArray(deck.cards)
+          ? deck.cards.map((card: StoredRecord) => {
+            const linked = typeof card.linkedCardKey === 'string' ? keyMap.get(card.linkedCardKey) : undefined
+            return linked ? { ...card, linkedCardKey: linked } : card
+          })
+          : deck.cards
+      }))
+    }
+  },
+  {
+    version: 6,
+    description: 'Move user data from localStorage into IndexedDB',
+    database(db) {
+      for (const name of ['binders', 'segments', 'plans', 'collection', 'decks']) {
+        createDataStore(db, name)
+      }
+    }
+  },
+  {
+    version: 7,
+    description: 'Create the queue of actions waiting for a network connection',
+    database(db) {
+      createDataStore(db, 'pendingActions')
+    }
+  },
+  {
+    version: 8,
+    description: 'Track owned and wanted copy counts per segment entry',
+    data(data) {
+      // Existing owned entries keep meaning one owned copy of one wanted
+      if (!data.quantities || typeof data.quantities !== 'object' || Array.isArray(data.quantities)) {
+        data.quantities = {}
+      }
+    }
+  },
+  {
+    version: 9,
+    description: 'Create the acquisition ledger',
+    database(db) {
+      createDataStore(db, 'acquisitions')
+    },
+    data(data) {
+      if (!Array.isArray(data.acquisitions)) {
+        data.acquisitions = []
+      }
+    }
+  },
+  {
+    version: 10,
+    description: 'Create the unsorted card inventory',
+    database(db) {
+      createDataStore(db, 'inventory')
+    },
+    data(data) {
+      if (!Array.isArray(data.inventory)) {
+        data.inventory = []
+      }
+    }
+  },
+  {
+    version: 11,
+    description: 'Create the collection value snapshots',
+    database(db) {
+      createDataStore(db, 'valueSnapshots')
+    },
+    data(data) {
+      if (!Array.isArray(data.valueSnapshots)) {
+        data.valueSnapshots = []
+      }
+    }
+  },
+  {
+    version: 12,
+    description: 'Index cached cards by set, printing and name',
+    database(_db, transaction) {
+      const cards = transaction.objectStore('cards')
+      if (!cards.indexNames.contains('set')) cards.createIndex('set', 'set')
+      if (!cards.indexNames.contains('printingKey')) cards.createIndex('printingKey', 'printingKey')
+      if (!cards.indexNames.contains('names')) cards.createIndex('names', 'names', { multiEntry: true })
+      if (!cards.indexNames.contains('nameSuffixes')) cards.createIndex('nameSuffixes', 'nameSuffixes', { multiEntry: true })
+
+      // Cards already in the cache get their keys now
+      const request = cards.openCursor()
+      request.onsuccess = () => {
+        const cursor = request.result
+        if (!cursor) return
+        cursor.update({ ...cursor.value, ...getCardIndexKeys(cursor.value) })
+        cursor.continue()
+      }
+    }
+  }
+]
+
+export const CURRENT_SCHEMA_VERSION = migrations[migrations.length - 1]!.version
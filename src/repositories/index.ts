@@ -0,0 +1,140 @@
+import { DEFAULT_COPY, type AcquisitionEvent, type Binder, type BinderPlan, type Deck, type InventoryItem, type OwnedCopy, type PendingAction, type Segment, type ValueSnapshot } from '@/types'
+import { createRepository, runTransaction } from './repository'
+
+export {
+  storageStatus,
+  persist,
+  clearWriteError,
+  isQuotaError,
+  getStorageEstimate,
+  checkStorageQuota,
+  applyRemoteChange,
+  type StorageEstimate,
+  type RemoteChange
+} from './repository'
+export { syncStatus, clearConflicts, type SyncConflict } from './sync'
+
+// Owned/skipped state for one segment entry - records with no state left are deleted
+export interface CollectionRecord {
+  entryId: string
+  owned: boolean
+  skipped: boolean
+  ownedCount?: number   // Only stored when more than one copy is owned
+  wantedCount?: number  // Only stored when the entry wants something other than one copy
+  copies?: OwnedCopy[]  // Only stored when a copy isn't a non-foil near mint English one
+}
+
+// Copies owned and wanted for one segment entry
+export interface SlotQuantity {
+  owned: number
+  wanted: number
+  copies?: OwnedCopy[]
+}
+
+export function getRecordCopies(record: CollectionRecord): OwnedCopy[] {
+  if (record.copies) return record.copies
+  const count = record.ownedCount ?? (record.owned ? 1 : 0)
+  return Array.from({ length: count }, () => ({ ...DEFAULT_COPY }))
+}
+
+export const bindersRepository = createRepository<Binder>('binders', binder => binder.id)
+export const segmentsRepository = createRepository<Segment>('segments', segment => segment.id)
+export const plansRepository = createRepository<BinderPlan>('plans', plan => plan.id)
+export const decksRepository = createRepository<Deck>('decks', deck => deck.id)
+export const collectionRepository = createRepository<CollectionRecord>('collection', record => record.entryId)
+export const acquisitionsRepository = createRepository<AcquisitionEvent>('acquisitions', event => event.id)
+export const inventoryRepository = createRepository<InventoryItem>('inventory', item => item.id)
+export const valueSnapshotsRepository = createRepository<ValueSnapshot>('valueSnapshots', snapshot => snapshot.id)
+export const pendingActionsRepository = createRepository<PendingAction>('pendingActions', action => action.id)
+
+// Every piece of user data, in the shape used by backups
+export interface AppData {
+  binders: Binder[]
+  segments: Segment[]
+  plans: BinderPlan[]
+  collection: string[]  // Owned entry IDs
+  skipped: string[]     // Skipped entry IDs
+  quantities: Record<string, SlotQuantity>  // Entries owning or wanting other than one copy
+  decks: Deck[]
+  acquisitions: AcquisitionEvent[]
+  inventory: InventoryItem[]
+  valueSnapshots: ValueSnapshot[]
+}
+
+export function toCollectionRecords(
+  owned: Iterable<string>,
+  skipped: Iterable<string>,
+  quantities: Record<string, SlotQuantity> = {}
+): CollectionRecord[] {
+  const records = new Map<string, CollectionRecord>()
+  const getRecord = (entryId: string) => {
+    let record = records.get(entryId)
+    if (!record) {
+      record = { entryId, owned: false, skipped: false }
+      records.set(entryId, record)
+    }
+    return record
+  }
+  for (const entryId of owned) {
+    getRecord(entryId).owned = true
+  }
+  for (const entryId of skipped) {
+    getRecord(entryId).skipped = true
+  }
+  for (const [entryId, quantity] of Object.entries(quantities)) {
+    const record = getRecord(entryId)
+    const owned = quantity.copies?.length ?? quantity.owned
+    record.owned = owned > 0
+    if (owned > 1) record.ownedCount = owned
+    if (quantity.wanted !== 1) record.wantedCount = quantity.wanted
+    if (quantity.copies?.length) record.copies = quantity.copies
+  }
+  return [...records.values()].filter(record => record.owned || record.skipped || record.wantedCount !== undefined)
+}
+
+export async function loadAppData(): Promise<AppData> {
+  const [binders, segments, plans, records, decks, acquisitions, inventory, valueSnapshots] = await Promise.all([
+    bindersRepository.getAll(),
+    segmentsRepository.getAll(),
+    plansRepository.getAll(),
+    collectionRepository.getAll(),
+    decksRepository.getAll(),
+    acquisitionsRepository.getAll(),
+    inventoryRepository.getAll(),
+    valueSnapshotsRepository.getAll()
+  ])
+  return {
+    binders,
+    segments,
+    plans,
+    collection: records.filter(record => record.owned).map(record => record.entryId),
+    skipped: records.filter(record => record.skipped).map(record => record.entryId),
+    quantities: Object.fromEntries(records
+      .filter(record => record.ownedCount !== undefined || record.wantedCount !== undefined || record.copies)
+      .map(record => {
+        const copies = getRecordCopies(record)
+        const quantity: SlotQuantity = { owned: copies.length, wanted: record.wantedCount ?? 1 }
+        if (record.copies) quantity.copies = record.copies
+        return [record.entryId, quantity]
+      })),
+    decks,
+    acquisitions,
+    inventory,
+    valueSnapshots
+  }
+}
+
+// Replace all user data in a single transaction, so a failure leaves the old data intact
+export function replaceAppData(data: AppData): Promise<void> {
+  const repositories = [bindersRepository, segmentsRepository, plansRepository, collectionRepository, decksRepository, acquisitionsRepository, inventoryRepository, valueSnapshotsRepository]
+  return runTransaction(repositories.map(repository => repository.storeName), 'readwrite', transaction => {
+    bindersRepository.replaceInTransaction(transaction, data.binders)
+    segmentsRepository.replaceInTransaction(transaction, data.segments)
+    plansRepository.replaceInTransaction(transaction, data.plans)
+    collectionRepository.replaceInTransaction(transaction, toCollectionRecords(data.collection, data.skipped, data.quantities))
+    decksRepository.replaceInTransaction(transaction, data.decks)
+    acquisitionsRepository.replaceInTransaction(transaction, data.acquisitions)
+    inventoryRepository.replaceInTransaction(transaction, data.inventory)
+    valueSnapshotsRepository.replaceInTransaction(transaction, data.valueSnapshots)
+  })
+}
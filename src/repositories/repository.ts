@@ -0,0 +1,298 @@
+import { reactive } from 'vue'
+import { openDatabase } from '@/utils/database'
+import { broadcastChange, listenForChanges, recordConflicts } from './sync'
+
+/**
+ * Records are stored wrapped with their key and a sort order, so lists come
+ * back in the order they were created even though IndexedDB sorts by key.
+ * The revision increases on every write and is used to detect edits from
+ * another tab that this tab hasn't seen yet.
+ */
+export interface StoredRecord<T> {
+  key: string
+  order: number
+  revision?: number  // Missing on records written before multi-tab sync
+  value: T
+}
+
+// Records another tab changed, already re-read from the database
+export interface RemoteChange<T> {
+  items: T[]
+  removedKeys: string[]
+  reload: boolean  // The whole store was replaced - reload everything
+}
+
+export interface Repository<T> {
+  getAll(): Promise<T[]>
+  getMany(keys: string[]): Promise<T[]>
+  put(item: T): Promise<void>
+  putMany(items: T[]): Promise<void>
+  remove(key: string): Promise<void>
+  removeMany(keys: string[]): Promise<void>
+  replaceAll(items: T[]): Promise<void>
+  // Write only the differences between two versions of the full list
+  saveChanges(previous: T[], next: T[]): Promise<void>
+  // Queue a full replacement on a transaction that spans this repository's store
+  replaceInTransaction(transaction: IDBTransaction, items: T[]): void
+  // Called when another tab changes this store, or when a local write lost a conflict
+  onRemoteChange(handler: (change: RemoteChange<T>) => void): void
+  readonly storeName: string
+}
+
+export interface StorageStatus {
+  writeError: string | null
+  quotaExceeded: boolean
+  nearQuota: boolean
+}
+
+// Usage above this fraction of the browser's quota triggers a warning
+const NEAR_QUOTA_RATIO = 0.9
+
+// Shared state for failed writes and quota warnings, shown as a banner by App.vue
+export const storageStatus = reactive<StorageStatus>({
+  writeError: null,
+  quotaExceeded: false,
+  nearQuota: false
+})
+
+export function isQuotaError(error: unknown): boolean {
+  return error instanceof DOMException && error.name === 'QuotaExceededError'
+}
+
+function recordWriteError(error: unknown): void {
+  console.error('Failed to save data:', error)
+  storageStatus.quotaExceeded = isQuotaError(error)
+  storageStatus.writeError = storageStatus.quotaExceeded
+    ? 'Browser storage is full'
+    : error instanceof Error ? error.message : 'Unknown storage error'
+}
+
+export function clearWriteError(): void {
+  storageStatus.writeError = null
+  storageStatus.quotaExceeded = false
+}
+
+// Fire-and-forget a write from a store mutation, surfacing failures in storageStatus
+export function persist(write: Promise<void>): void {
+  write.catch(recordWriteError)
+}
+
+// Plain JSON copy - strips Vue proxies, which IndexedDB can't clone
+function toPlain<T>(value: T): T {
+  return JSON.parse(JSON.stringify(value))
+}
+
+export function runTransaction(
+  storeNames: string | string[],
+  mode: IDBTransactionMode,
+  work: (transaction: IDBTransaction) => void
+): Promise<void> {
+  return openDatabase().then(db => new Promise<void>((resolve, reject) => {
+    const transaction = db.transaction(storeNames, mode)
+    work(transaction)
+    transaction.oncomplete = () => resolve()
+    transaction.onerror = () => reject(transaction.error)
+    transaction.onabort = () => reject(transaction.error ?? new Error('Transaction aborted'))
+  }))
+}
+
+export function createRepository<T>(storeName: string, getKey: (item: T) => string): Repository<T> {
+  // Sort order for the next new record; kept ahead of everything loaded
+  let nextOrder = Date.now()
+  // Last revision of each record this tab has seen
+  const knownRevisions = new Map<string, number>()
+  const handlers: Array<(change: RemoteChange<T>) => void> = []
+
+  function takeOrder(): number {
+    nextOrder = Math.max(nextOrder + 1, Date.now())
+    return nextOrder
+  }
+
+  function remember(records: StoredRecord<T>[]): void {
+    for (const record of records) {
+      knownRevisions.set(record.key, record.revision ?? 0)
+      nextOrder = Math.max(nextOrder, record.order)
+    }
+  }
+
+  // Keep an existing record's order, or give a new record the next one.
+  // Skips the write if another tab changed or deleted the record since this tab last saw it.
+  function putRecord(store: IDBObjectStore, item: T, conflicts: string[]): void {
+    const key = getKey(item)
+    const value = toPlain(item)
+    const request = store.get(key)
+    request.onsuccess = () => {
+      const existing = request.result as StoredRecord<T> | undefined
+      const currentRevision = existing ? existing.revision ?? 0 : -1
+      const knownRevision = knownRevisions.get(key)
+      if (knownRevision !== undefined && knownRevision !== currentRevision) {
+        conflicts.push(key)
+        return
+      }
+      const revision = Math.max(currentRevision, 0) + 1
+      const record: StoredRecord<T> = { key, order: existing?.order ?? takeOrder(), revision, value }
+      store.put(record)
+      knownRevisions.set(key, revision)
+    }
+  }
+
+  async function readRecords(keys?: string[]): Promise<StoredRecord<T>[]> {
+    const records: StoredRecord<T>[] = []
+    await runTransaction(storeName, 'readonly', transaction => {
+      const store = transaction.objectStore(storeName)
+      if (!keys) {
+        const request = store.getAll()
+        request.onsuccess = () => records.push(...request.result as StoredRecord<T>[])
+        return
+      }
+      for (const key of keys) {
+        const request = store.get(key)
+        request.onsuccess = () => {
+          if (request.result) records.push(request.result as StoredRecord<T>)
+        }
+      }
+    })
+    records.sort((a, b) => a.order - b.order)
+    remember(records)
+    return records
+  }
+
+  async function getAll(): Promise<T[]> {
+    knownRevisions.clear()
+    const records = await readRecords()
+    return records.map(record => record.value)
+  }
+
+  async function getMany(keys: string[]): Promise<T[]> {
+    if (keys.length === 0) return []
+    const records = await readRecords(keys)
+    return records.map(record => record.value)
+  }
+
+  // Re-read changed records and hand them to the store
+  async function notifyHandlers(keys: string[], removedKeys: string[], reload: boolean): Promise<void> {
+    for (const key of removedKeys) {
+      knownRevisions.delete(key)
+    }
+    const items = reload ? [] : await getMany(keys)
+    // Records that vanished between the change and the re-read count as removed
+    const foundKeys = new Set(items.map(getKey))
+    const missingKeys = keys.filter(key => !foundKeys.has(key))
+    const change: RemoteChange<T> = { items, removedKeys: [...removedKeys, ...missingKeys], reload }
+    for (const handler of handlers) {
+      handler(change)
+    }
+  }
+
+  listenForChanges(storeName, message => {
+    notifyHandlers(message.keys, message.removedKeys, message.reload)
+      .catch(error => console.error(`Failed to sync ${storeName} from another tab:`, error))
+  })
+
+  async function putMany(items: T[]): Promise<void> {
+    if (items.length === 0) return
+    const conflicts: string[] = []
+    await runTransaction(storeName, 'readwrite', transaction => {
+      const store = transaction.objectStore(storeName)
+      for (const item of items) {
+        putRecord(store, item, conflicts)
+      }
+    })
+
+    const conflictKeys = new Set(conflicts)
+    const written = items.map(getKey).filter(key => !conflictKeys.has(key))
+    if (written.length > 0) {
+      broadcastChange(storeName, { keys: written, removedKeys: [], reload: false })
+    }
+    if (conflicts.length > 0) {
+      console.warn(`${conflicts.length} ${storeName} edit(s) conflicted with another tab and were not saved`)
+      recordConflicts(storeName, conflicts)
+      // Show the other tab's version instead of the unsaved local one
+      await notifyHandlers(conflicts, [], false)
+    }
+  }
+
+  async function removeMany(keys: string[]): Promise<void> {
+    if (keys.length === 0) return
+    await runTransaction(storeName, 'readwrite', transaction => {
+      const store = transaction.objectStore(storeName)
+      for (const key of keys) {
+        store.delete(key)
+        knownRevisions.delete(key)
+      }
+    })
+    broadcastChange(storeName, { keys: [], removedKeys: keys, reload: false })
+  }
+
+  function saveChanges(previous: T[], next: T[]): Promise<void> {
+    const previousByKey = new Map(previous.map(item => [getKey(item), JSON.stringify(item)]))
+    const nextKeys = new Set(next.map(getKey))
+    const changed = next.filter(item => previousByKey.get(getKey(item)) !== JSON.stringify(item))
+    const removed = [...previousByKey.keys()].filter(key => !nextKeys.has(key))
+    return Promise.all([putMany(changed), removeMany(removed)]).then(() => undefined)
+  }
+
+  function replaceInTransaction(transaction: IDBTransaction, items: T[]): void {
+    const store = transaction.objectStore(storeName)
+    store.clear()
+    knownRevisions.clear()
+    for (const item of items) {
+      const record: StoredRecord<T> = { key: getKey(item), order: takeOrder(), revision: 1, value: toPlain(item) }
+      store.put(record)
+      knownRevisions.set(record.key, 1)
+    }
+    transaction.addEventListener('complete', () => {
+      broadcastChange(storeName, { keys: [], removedKeys: [], reload: true })
+    })
+  }
+
+  return {
+    getAll,
+    getMany,
+    put: item => putMany([item]),
+    putMany,
+    remove: key => removeMany([key]),
+    removeMany,
+    saveChanges,
+    replaceAll: items => runTransaction(storeName, 'readwrite', transaction => replaceInTransaction(transaction, items)),
+    replaceInTransaction,
+    onRemoteChange: handler => {
+      handlers.push(handler)
+    },
+    storeName
+  }
+}
+
+// Apply a remote change to a store's list: replace changed items, append new ones, drop removed ones
+export function applyRemoteChange<T>(list: T[], change: RemoteChange<T>, getKey: (item: T) => string): T[] {
+  const changedByKey = new Map(change.items.map(item => [getKey(item), item]))
+  const removed = new Set(change.removedKeys)
+  const next = list
+    .filter(item => !removed.has(getKey(item)))
+    .map(item => {
+      const key = getKey(item)
+      const changed = changedByKey.get(key)
+      changedByKey.delete(key)
+      return changed ?? item
+    })
+  return [...next, ...changedByKey.values()]
+}
+
+export interface StorageEstimate {
+  usage: number
+  quota: number
+}
+
+// Browser-reported storage usage for this origin, if available
+export async function getStorageEstimate(): Promise<StorageEstimate | null> {
+  if (!navigator.storage?.estimate) return null
+  const estimate = await navigator.storage.estimate()
+  if (estimate.usage === undefined || estimate.quota === undefined) return null
+  return { usage: estimate.usage, quota: estimate.quota }
+}
+
+// Flag storage that is nearly full before writes start failing
+export async function checkStorageQuota(): Promise<void> {
+  const estimate = await getStorageEstimate()
+  storageStatus.nearQuota = estimate !== null && estimate.quota > 0 && estimate.usage / estimate.quota > NEAR_QUOTA_RATIO
+}
@@ -0,0 +1,68 @@
+import { reactive } from 'vue'
+
+const CHANNEL_NAME = 'spellbinder-sync'
+
+// Identifies this tab so it can ignore its own broadcasts
+const tabId = crypto.randomUUID()
+
+export interface ChangeMessage {
+  tabId: string
+  storeName: string
+  keys: string[]         // Records written
+  removedKeys: string[]  // Records deleted
+  reload: boolean        // The whole store was replaced
+}
+
+export type ChangeListener = (message: ChangeMessage) => void
+
+export interface SyncConflict {
+  storeName: string
+  key: string
+  detectedAt: number
+}
+
+// Edits that weren't saved because another tab changed the same record first
+export const syncStatus = reactive<{ conflicts: SyncConflict[] }>({
+  conflicts: []
+})
+
+export function recordConflicts(storeName: string, keys: string[]): void {
+  const detectedAt = Date.now()
+  for (const key of keys) {
+    syncStatus.conflicts.push({ storeName, key, detectedAt })
+  }
+}
+
+export function clearConflicts(): void {
+  syncStatus.conflicts = []
+}
+
+const listeners = new Map<string, ChangeListener[]>()
+let channel: BroadcastChannel | null = null
+
+function getChannel(): BroadcastChannel | null {
+  if (channel || typeof BroadcastChannel === 'undefined') return channel
+
+  channel = new BroadcastChannel(CHANNEL_NAME)
+  channel.onmessage = (event: MessageEvent<ChangeMessage>) => {
+    const message = event.data
+    if (!message || message.tabId === tabId) return
+    for (const listener of listeners.get(message.storeName) ?? []) {
+      listener(message)
+    }
+  }
+  return channel
+}
+
+// Tell other tabs that records in a store changed
+export function broadcastChange(storeName: string, change: Omit<ChangeMessage, 'tabId' | 'storeName'>): void {
+  getChannel()?.postMessage({ tabId, storeName, ...change })
+}
+
+// Listen for changes other tabs make to a store
+export function listenForChanges(storeName: string, listener: ChangeListener): void {
+  getChannel()
+  const storeListeners = listeners.get(storeName) ?? []
+  storeListeners.push(listener)
+  listeners.set(storeName, storeListeners)
+}
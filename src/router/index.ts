@@ -2,6 +2,12 @@ import { createRouter, createWebHistory } from 'vue-router'
 import HomePage from '@/views/HomePage.vue'
 import PlanEditor from '@/views/PlanEditor.vue'
 import DecksView from '@/views/DecksView.vue'
+import DataView from '@/views/DataView.vue'
+import DataHealthView from '@/views/DataHealthView.vue'
+import LedgerView from '@/views/LedgerView.vue'
+import InventoryView from '@/views/InventoryView.vue'
+import ValueView from '@/views/ValueView.vue'
+import SharedPlanView from '@/views/SharedPlanView.vue'
 
 const routes = [
   {
@@ -19,6 +25,11 @@ const routes = [
     name: 'set-detail',
     component: PlanEditor
   },
+  {
+    path: '/shared',
+    name: 'shared-set',
+    component: SharedPlanView
+  },
   {
     path: '/decks',
     name: 'decks',
@@ -28,6 +39,31 @@ const routes = [
     path: '/decks/:id',
     name: 'deck-detail',
     component: DecksView
+  },
+  {
+    path: '/inventory',
+    name: 'inventory',
+    component: InventoryView
+  },
+  {
+    path: '/value',
+    name: 'value',
+    component: ValueView
+  },
+  {
+    path: '/ledger',
+    name: 'ledger',
+    component: LedgerView
+  },
+  {
+    path: '/data',
+    name: 'data',
+    component: DataView
+  },
+  {
+    path: '/data/health',
+    name: 'data-health',
+    component: DataHealthView
   }
 ]
 
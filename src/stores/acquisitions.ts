@@ -0,0 +1,127 @@
+import { defineStore } from 'pinia'
+import { ref } from 'vue'
+import type { AcquisitionEvent } from '@/types'
+import { acquisitionsRepository, persist, applyRemoteChange } from '@/repositories'
+import { withHistory, useHistoryStore } from './history'
+import { useSegmentsStore } from './segments'
+
+const CURRENCY_STORAGE_KEY = 'spellbinder-ledger-currency'
+const DEFAULT_CURRENCY = 'USD'
+
+function generateId(): string {
+  return crypto.randomUUID()
+}
+
+// Local date as YYYY-MM-DD
+function today(): string {
+  const now = new Date()
+  return `${now.getFullYear()}-${String(now.getMonth() + 1).padStart(2, '0')}-${String(now.getDate()).padStart(2, '0')}`
+}
+
+export interface OwnershipChange {
+  entryId: string
+  delta: number  // Copies added (positive) or removed (negative)
+}
+
+/**
+ * Ledger of copies acquired and disposed of. Events are recorded whenever the
+ * owned copies of a segment entry change, and stay when ownership is removed.
+ */
+export const useAcquisitionsStore = defineStore('acquisitions', () => {
+  const events = ref<AcquisitionEvent[]>([])
+  const lastCurrency = ref(localStorage.getItem(CURRENCY_STORAGE_KEY) ?? DEFAULT_CURRENCY)
+
+  function findCardId(entryId: string): string | undefined {
+    for (const segment of useSegmentsStore().segments) {
+      const index = segment.entryIds.indexOf(entryId)
+      if (index !== -1) return segment.cardIds[index]
+    }
+    return undefined
+  }
+
+  // Called by the collection store whenever owned copies change
+  function recordOwnershipChanges(changes: OwnershipChange[]): void {
+    const recorded: AcquisitionEvent[] = []
+    for (const { entryId, delta } of changes) {
+      if (delta === 0) continue
+      recorded.push({
+        id: generateId(),
+        entryId,
+        cardId: findCardId(entryId),
+        kind: delta > 0 ? 'acquired' : 'disposed',
+        quantity: Math.abs(delta),
+        date: today(),
+        createdAt: Date.now()
+      })
+    }
+    if (recorded.length === 0) return
+    events.value.push(...recorded)
+    persist(acquisitionsRepository.putMany(recorded))
+  }
+
+  function setLastCurrency(currency: string): void {
+    lastCurrency.value = currency
+    localStorage.setItem(CURRENCY_STORAGE_KEY, currency)
+  }
+
+  function updateEvent(id: string, updates: Partial<Omit<AcquisitionEvent, 'id' | 'entryId' | 'createdAt'>>): void {
+    const index = events.value.findIndex(event => event.id === id)
+    const existing = events.value[index]
+    if (!existing) return
+    const updated = { ...existing, ...updates }
+    events.value[index] = updated
+    persist(acquisitionsRepository.put(updated))
+    if (updates.currency) setLastCurrency(updates.currency)
+  }
+
+  function removeEvent(id: string): void {
+    const index = events.value.findIndex(event => event.id === id)
+    if (index !== -1) {
+      events.value.splice(index, 1)
+      persist(acquisitionsRepository.remove(id))
+    }
+  }
+
+  // Newest first
+  function getEventsForEntries(entryIds: Iterable<string>): AcquisitionEvent[] {
+    const ids = new Set(entryIds)
+    return events.value
+      .filter(event => ids.has(event.entryId))
+      .sort((a, b) => b.date.localeCompare(a.date) || b.createdAt - a.createdAt)
+  }
+
+  // Replace all events with an earlier state (undo/redo)
+  function restoreSnapshot(snapshot: AcquisitionEvent[]): void {
+    persist(acquisitionsRepository.saveChanges(events.value, snapshot))
+    events.value = snapshot
+  }
+
+  // Read the ledger from the database (at startup and after a backup restore)
+  async function load(): Promise<void> {
+    events.value = await acquisitionsRepository.getAll()
+  }
+
+  // Keep in step with edits made in other tabs
+  acquisitionsRepository.onRemoteChange(change => {
+    if (change.reload) {
+      load()
+    } else {
+      events.value = applyRemoteChange(events.value, change, event => event.id)
+    }
+    // Undo steps were recorded against the state before this change
+    useHistoryStore().clear()
+  })
+
+  return {
+    events,
+    lastCurrency,
+    setLastCurrency,
+    // Only called from collection actions, so these join their history steps
+    recordOwnershipChanges: withHistory('acquisitions', 'Record ownership changes', recordOwnershipChanges),
+    updateEvent: withHistory('acquisitions', 'Edit ledger entry', updateEvent),
+    removeEvent: withHistory('acquisitions', 'Delete ledger entry', removeEvent),
+    getEventsForEntries,
+    restoreSnapshot,
+    load
+  }
+})
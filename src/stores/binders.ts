@@ -2,20 +2,15 @@ import { defineStore } from 'pinia'
 import { ref, computed } from 'vue'
 import type { Binder, Container, PhysicalBinder, StorageBox } from '@/types'
 import { processBinderImage, saveBinderImage, deleteBinderImage } from '@/utils/binderImages'
-
-const STORAGE_KEY = 'spellbinder-binders'
+import { bindersRepository, persist, applyRemoteChange } from '@/repositories'
+import { withHistory, useHistoryStore } from './history'
 
 function generateId(): string {
   return crypto.randomUUID()
 }
 
-function loadFromStorage(): Binder[] {
-  const stored = localStorage.getItem(STORAGE_KEY)
-  return stored ? JSON.parse(stored) : []
-}
-
-function saveToStorage(binders: Binder[]): void {
-  localStorage.setItem(STORAGE_KEY, JSON.stringify(binders))
+function saveBinder(binder: Binder): void {
+  persist(bindersRepository.put(binder))
 }
 
 // Type guards for container discrimination
@@ -28,7 +23,7 @@ export function isStorageBox(container: Container): container is StorageBox {
 }
 
 export const useBindersStore = defineStore('binders', () => {
-  const binders = ref<Binder[]>(loadFromStorage())
+  const binders = ref<Binder[]>([])
 
   const binderMap = computed(() => {
     const map = new Map<string, Binder>()
@@ -49,7 +44,9 @@ export const useBindersStore = defineStore('binders', () => {
     return container.pageCount * container.slotsPerPage
   }
 
-  async function addBinder(
+  // Build new storage and save its cover image. Nothing is added to the store yet,
+  // so the image work stays out of the history step that adds it (see insertBinder).
+  async function prepareBinder(
     name: string,
     containerConfig:
       | { type: 'binder'; pageCount: number; slotsPerPage: number }
@@ -89,81 +86,132 @@ export const useBindersStore = defineStore('binders', () => {
       }
     }
 
+    return container
+  }
+
+  function insertBinder(container: Container): Container {
     binders.value.push(container)
-    saveToStorage(binders.value)
+    saveBinder(container)
     return container
   }
 
+  async function addBinder(
+    name: string,
+    containerConfig:
+      | { type: 'binder'; pageCount: number; slotsPerPage: number }
+      | { type: 'box' },
+    coverImage?: File
+  ): Promise<Container> {
+    return recordedInsertBinder(await prepareBinder(name, containerConfig, coverImage))
+  }
+
+  function replaceBinder(binder: Binder): void {
+    const index = binders.value.findIndex(b => b.id === binder.id)
+    if (index === -1) return
+    binders.value[index] = binder
+    saveBinder(binder)
+  }
+
+  // The cover image is updated first; the edit itself is recorded once it's done
   async function updateBinder(
     id: string,
     updates: Partial<Omit<Container, 'id' | 'type'>>,
     coverImage?: File | null
   ): Promise<void> {
-    const index = binders.value.findIndex(b => b.id === id)
-    if (index !== -1) {
-      const existing = binders.value[index]
-      if (existing) {
-        const updatedBinder = { ...existing, ...updates }
-
-        // Handle cover image updates
-        if (coverImage === null) {
-          // Remove cover image
-          try {
-            await deleteBinderImage(id)
-            updatedBinder.hasCoverImage = false
-          } catch (error) {
-            console.error('Failed to delete cover image:', error)
-          }
-        } else if (coverImage instanceof File) {
-          // Update with new cover image
-          try {
-            // For boxes, use default 9 slots for image processing
-            const slotsForImage = updatedBinder.type === 'binder' ? updatedBinder.slotsPerPage : 9
-            const processedBlob = await processBinderImage(coverImage, slotsForImage)
-            await saveBinderImage(id, processedBlob, slotsForImage)
-            updatedBinder.hasCoverImage = true
-          } catch (error) {
-            console.error('Failed to save cover image:', error)
-          }
-        }
-
-        binders.value[index] = updatedBinder
-        saveToStorage(binders.value)
+    const existing = binderMap.value.get(id)
+    if (!existing) return
+    const updatedBinder = { ...existing, ...updates }
+
+    // Handle cover image updates
+    if (coverImage === null) {
+      // Remove cover image
+      try {
+        await deleteBinderImage(id)
+        updatedBinder.hasCoverImage = false
+      } catch (error) {
+        console.error('Failed to delete cover image:', error)
+      }
+    } else if (coverImage instanceof File) {
+      // Update with new cover image
+      try {
+        // For boxes, use default 9 slots for image processing
+        const slotsForImage = updatedBinder.type === 'binder' ? updatedBinder.slotsPerPage : 9
+        const processedBlob = await processBinderImage(coverImage, slotsForImage)
+        await saveBinderImage(id, processedBlob, slotsForImage)
+        updatedBinder.hasCoverImage = true
+      } catch (error) {
+        console.error('Failed to save cover image:', error)
       }
     }
+
+    recordedReplaceBinder(updatedBinder)
   }
 
-  async function removeBinder(id: string): Promise<void> {
+  function deleteBinder(id: string): void {
     const index = binders.value.findIndex(b => b.id === id)
-    if (index !== -1) {
-      const binder = binders.value[index]
-
-      // Delete cover image if it exists
-      if (binder?.hasCoverImage) {
-        try {
-          await deleteBinderImage(id)
-        } catch (error) {
-          console.error('Failed to delete cover image:', error)
-        }
-      }
+    if (index === -1) return
+    binders.value.splice(index, 1)
+    persist(bindersRepository.remove(id))
+  }
+
+  async function removeBinder(id: string): Promise<void> {
+    const binder = binderMap.value.get(id)
+    if (!binder) return
 
-      binders.value.splice(index, 1)
-      saveToStorage(binders.value)
+    // Delete cover image if it exists
+    if (binder.hasCoverImage) {
+      try {
+        await deleteBinderImage(id)
+      } catch (error) {
+        console.error('Failed to delete cover image:', error)
+      }
     }
+
+    recordedDeleteBinder(id)
   }
 
+  const recordedInsertBinder = withHistory('binders', (container: Container) => `Add storage "${container.name}"`, insertBinder)
+  const recordedReplaceBinder = withHistory('binders', 'Edit storage', replaceBinder)
+  const recordedDeleteBinder = withHistory('binders', 'Delete storage', deleteBinder)
+
   function getBindersInOrder(ids: string[]): Binder[] {
     return ids.map(id => binderMap.value.get(id)).filter((b): b is Binder => b !== undefined)
   }
 
+  // Replace all binders with an earlier state (undo/redo)
+  function restoreSnapshot(snapshot: Binder[]): void {
+    persist(bindersRepository.saveChanges(binders.value, snapshot))
+    binders.value = snapshot
+  }
+
+  // Read binders from the database (at startup and after a backup restore)
+  async function load(): Promise<void> {
+    binders.value = await bindersRepository.getAll()
+  }
+
+  // Keep in step with edits made in other tabs
+  bindersRepository.onRemoteChange(change => {
+    if (change.reload) {
+      load()
+    } else {
+      binders.value = applyRemoteChange(binders.value, change, binder => binder.id)
+    }
+    // Undo steps were recorded against the state before this change
+    useHistoryStore().clear()
+  })
+
   return {
     binders,
     binderMap,
     getBinder,
     getBinderCapacity,
+    prepareBinder,
+    insertBinder: recordedInsertBinder,
     addBinder,
     updateBinder,
     removeBinder,
-    getBindersInOrder
+    getBindersInOrder,
+    restoreSnapshot,
+    load
   }
 })
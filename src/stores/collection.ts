@@ -1,56 +1,195 @@
 import { defineStore } from 'pinia'
-import { ref } from 'vue'
+import { ref, computed } from 'vue'
+import { createCopy, copyMatchesTarget, isDefaultCopy, type CopyTarget, type OwnedCopy } from '@/types'
+import { collectionRepository, persist, getRecordCopies, type CollectionRecord } from '@/repositories'
+import { withHistory, useHistoryStore } from './history'
+import { useSegmentsStore } from './segments'
+import { useAcquisitionsStore, type OwnershipChange } from './acquisitions'
 
-const STORAGE_KEY = 'spellbinder-collection'
-const SKIPPED_STORAGE_KEY = 'spellbinder-skipped'
-
-function loadFromStorage(key: string): Set<string> {
-  const stored = localStorage.getItem(key)
-  return stored ? new Set(JSON.parse(stored)) : new Set()
-}
-
-function saveToStorage(key: string, cardIds: Set<string>): void {
-  localStorage.setItem(key, JSON.stringify([...cardIds]))
+// Copy counts are whole numbers; an entry always wants at least one copy
+function toCount(value: number, min: number): number {
+  return Number.isFinite(value) ? Math.max(min, Math.floor(value)) : min
 }
 
 export const useCollectionStore = defineStore('collection', () => {
-  const ownedCardIds = ref<Set<string>>(loadFromStorage(STORAGE_KEY))
-  const skippedCardIds = ref<Set<string>>(loadFromStorage(SKIPPED_STORAGE_KEY))
+  // Copies held by entries with at least one, and entries wanting other than one copy
+  const ownedCopies = ref<Map<string, OwnedCopy[]>>(new Map())
+  const wantedCounts = ref<Map<string, number>>(new Map())
+  const skippedCardIds = ref<Set<string>>(new Set())
+
+  // Copy target of the segment each entry belongs to
+  const entryTargets = computed(() => {
+    const targets = new Map<string, CopyTarget>()
+    for (const segment of useSegmentsStore().segments) {
+      if (!segment.copyTarget) continue
+      for (const entryId of segment.entryIds) {
+        targets.set(entryId, segment.copyTarget)
+      }
+    }
+    return targets
+  })
+
+  // Write the current owned/wanted/skipped state of just these entries
+  function saveEntries(entryIds: string[]): void {
+    const records: CollectionRecord[] = []
+    const cleared: string[] = []
+    for (const entryId of entryIds) {
+      const copies = ownedCopies.value.get(entryId) ?? []
+      const wanted = wantedCounts.value.get(entryId)
+      const skipped = skippedCardIds.value.has(entryId)
+      if (copies.length > 0 || skipped || wanted !== undefined) {
+        const record: CollectionRecord = { entryId, owned: copies.length > 0, skipped }
+        if (copies.length > 1) record.ownedCount = copies.length
+        if (wanted !== undefined) record.wantedCount = wanted
+        if (!copies.every(isDefaultCopy)) record.copies = copies
+        records.push(record)
+      } else {
+        cleared.push(entryId)
+      }
+    }
+    persist(collectionRepository.putMany(records))
+    persist(collectionRepository.removeMany(cleared))
+  }
 
-  function isOwned(cardId: string): boolean {
-    return ownedCardIds.value.has(cardId)
+  function getCopies(entryId: string): OwnedCopy[] {
+    return ownedCopies.value.get(entryId) ?? []
   }
 
-  function toggleOwned(cardId: string): void {
-    if (ownedCardIds.value.has(cardId)) {
-      ownedCardIds.value.delete(cardId)
+  function getOwnedCount(entryId: string): number {
+    return getCopies(entryId).length
+  }
+
+  function getWantedCount(entryId: string): number {
+    return wantedCounts.value.get(entryId) ?? 1
+  }
+
+  function getCopyTarget(entryId: string): CopyTarget | undefined {
+    return entryTargets.value.get(entryId)
+  }
+
+  // Owned copies that meet the entry's segment target
+  function getQualifyingCount(entryId: string): number {
+    const target = getCopyTarget(entryId)
+    return getCopies(entryId).filter(copy => copyMatchesTarget(copy, target)).length
+  }
+
+  // An entry counts as owned once it has every qualifying copy it wants
+  function isOwned(entryId: string): boolean {
+    return getQualifyingCount(entryId) >= getWantedCount(entryId)
+  }
+
+  // Qualifying copies owned (up to the number wanted) and wanted across entries, for completion figures
+  function getCopyCounts(entryIds: Iterable<string>): { owned: number; wanted: number } {
+    let owned = 0
+    let wanted = 0
+    for (const entryId of entryIds) {
+      const entryWanted = getWantedCount(entryId)
+      owned += Math.min(getQualifyingCount(entryId), entryWanted)
+      wanted += entryWanted
+    }
+    return { owned, wanted }
+  }
+
+  // Copy count changes are collected so they can be logged in the acquisition ledger
+  function applyCopies(entryId: string, copies: OwnedCopy[], changes: OwnershipChange[]): void {
+    changes.push({ entryId, delta: copies.length - getOwnedCount(entryId) })
+    if (copies.length > 0) {
+      ownedCopies.value.set(entryId, copies)
     } else {
-      ownedCardIds.value.add(cardId)
+      ownedCopies.value.delete(entryId)
     }
-    ownedCardIds.value = new Set(ownedCardIds.value)
-    saveToStorage(STORAGE_KEY, ownedCardIds.value)
   }
 
-  function setOwned(cardId: string, owned: boolean): void {
-    if (owned) {
-      ownedCardIds.value.add(cardId)
+  // Add copies matching the segment target until every wanted copy qualifies
+  function fillCopies(entryId: string): OwnedCopy[] {
+    const missing = getWantedCount(entryId) - getQualifyingCount(entryId)
+    const added = Array.from({ length: Math.max(0, missing) }, () => createCopy(getCopyTarget(entryId)))
+    return [...getCopies(entryId), ...added]
+  }
+
+  function setCopies(entryId: string, copies: OwnedCopy[]): void {
+    const changes: OwnershipChange[] = []
+    applyCopies(entryId, copies.map(copy => ({ ...copy })), changes)
+    ownedCopies.value = new Map(ownedCopies.value)
+    saveEntries([entryId])
+    useAcquisitionsStore().recordOwnershipChanges(changes)
+  }
+
+  // Copies moved in from the unsorted pile were already owned, so they aren't logged as acquisitions
+  function placeCopies(entryId: string, copies: OwnedCopy[]): void {
+    applyCopies(entryId, [...getCopies(entryId), ...copies.map(copy => ({ ...copy }))], [])
+    ownedCopies.value = new Map(ownedCopies.value)
+    saveEntries([entryId])
+  }
+
+  // Copies from a collection import are added to each entry's copies, or replace them
+  function importCopies(imported: Map<string, OwnedCopy[]>, replace: boolean): void {
+    const changes: OwnershipChange[] = []
+    for (const [entryId, copies] of imported) {
+      const added = copies.map(copy => ({ ...copy }))
+      applyCopies(entryId, replace ? added : [...getCopies(entryId), ...added], changes)
+    }
+    ownedCopies.value = new Map(ownedCopies.value)
+    saveEntries([...imported.keys()])
+    useAcquisitionsStore().recordOwnershipChanges(changes)
+  }
+
+  // Copies from a shared set (on their own or merged with an entry's copies) were
+  // collected by whoever shared it, so they're set without being logged as acquisitions.
+  // The entry's own copies are logged as disposed where the shared ones replace them.
+  function importSharedCopies(imported: Map<string, OwnedCopy[]>, replacing: Set<string> = new Set()): void {
+    const changes: OwnershipChange[] = []
+    for (const [entryId, copies] of imported) {
+      if (replacing.has(entryId)) changes.push({ entryId, delta: -getOwnedCount(entryId) })
+      applyCopies(entryId, copies.map(copy => ({ ...copy })), [])
+    }
+    ownedCopies.value = new Map(ownedCopies.value)
+    saveEntries([...imported.keys()])
+    useAcquisitionsStore().recordOwnershipChanges(changes)
+  }
+
+  // Adding copies appends ones matching the target; removing drops the most recently added
+  function setOwnedCount(entryId: string, count: number): void {
+    const owned = toCount(count, 0)
+    const copies = getCopies(entryId).slice(0, owned)
+    while (copies.length < owned) {
+      copies.push(createCopy(getCopyTarget(entryId)))
+    }
+    setCopies(entryId, copies)
+  }
+
+  function setWantedCount(entryId: string, count: number): void {
+    const wanted = toCount(count, 1)
+    if (wanted === 1) {
+      wantedCounts.value.delete(entryId)
     } else {
-      ownedCardIds.value.delete(cardId)
+      wantedCounts.value.set(entryId, wanted)
     }
-    ownedCardIds.value = new Set(ownedCardIds.value)
-    saveToStorage(STORAGE_KEY, ownedCardIds.value)
+    wantedCounts.value = new Map(wantedCounts.value)
+    saveEntries([entryId])
+  }
+
+  function toggleOwned(cardId: string): void {
+    const changes: OwnershipChange[] = []
+    applyCopies(cardId, isOwned(cardId) ? [] : fillCopies(cardId), changes)
+    ownedCopies.value = new Map(ownedCopies.value)
+    saveEntries([cardId])
+    useAcquisitionsStore().recordOwnershipChanges(changes)
+  }
+
+  // Marking owned fills the entry up to its wanted count; copies already owned are kept
+  function setOwned(cardId: string, owned: boolean): void {
+    setMultipleOwned([cardId], owned)
   }
 
   function setMultipleOwned(cardIds: string[], owned: boolean): void {
+    const changes: OwnershipChange[] = []
     for (const cardId of cardIds) {
-      if (owned) {
-        ownedCardIds.value.add(cardId)
-      } else {
-        ownedCardIds.value.delete(cardId)
-      }
+      applyCopies(cardId, owned ? fillCopies(cardId) : [], changes)
     }
-    ownedCardIds.value = new Set(ownedCardIds.value)
-    saveToStorage(STORAGE_KEY, ownedCardIds.value)
+    ownedCopies.value = new Map(ownedCopies.value)
+    saveEntries(cardIds)
+    useAcquisitionsStore().recordOwnershipChanges(changes)
   }
 
   function isSkipped(cardId: string): boolean {
@@ -64,7 +203,7 @@ export const useCollectionStore = defineStore('collection', () => {
       skippedCardIds.value.add(cardId)
     }
     skippedCardIds.value = new Set(skippedCardIds.value)
-    saveToStorage(SKIPPED_STORAGE_KEY, skippedCardIds.value)
+    saveEntries([cardId])
   }
 
   function setSkipped(cardId: string, skipped: boolean): void {
@@ -74,100 +213,144 @@ export const useCollectionStore = defineStore('collection', () => {
       skippedCardIds.value.delete(cardId)
     }
     skippedCardIds.value = new Set(skippedCardIds.value)
-    saveToStorage(SKIPPED_STORAGE_KEY, skippedCardIds.value)
-  }
-
-  // Shift indices when a card is inserted (indices >= insertIndex move up by 1)
-  function shiftIndicesForInsert(segmentId: string, insertIndex: number): void {
-    const prefix = `${segmentId}:`
-    const newOwned = new Set<string>()
-    const newSkipped = new Set<string>()
-
-    for (const key of ownedCardIds.value) {
-      if (key.startsWith(prefix)) {
-        const idx = parseInt(key.slice(prefix.length), 10)
-        if (idx >= insertIndex) {
-          newOwned.add(`${segmentId}:${idx + 1}`)
-        } else {
-          newOwned.add(key)
-        }
-      } else {
-        newOwned.add(key)
-      }
-    }
+    saveEntries([cardId])
+  }
 
-    for (const key of skippedCardIds.value) {
-      if (key.startsWith(prefix)) {
-        const idx = parseInt(key.slice(prefix.length), 10)
-        if (idx >= insertIndex) {
-          newSkipped.add(`${segmentId}:${idx + 1}`)
-        } else {
-          newSkipped.add(key)
-        }
-      } else {
-        newSkipped.add(key)
+  // Drop owned/wanted/skipped state for segment entries that no longer exist.
+  // Owned copies go the same way as unmarking them, as disposals in the ledger.
+  // Drop owned, wanted and skipped state; returns whether there was any
+  function clearEntryState(entryIds: string[], changes: OwnershipChange[]): boolean {
+    let changed = false
+    for (const entryId of entryIds) {
+      if (ownedCopies.value.has(entryId)) {
+        applyCopies(entryId, [], changes)
+        changed = true
       }
+      changed = wantedCounts.value.delete(entryId) || changed
+      changed = skippedCardIds.value.delete(entryId) || changed
     }
+    if (!changed) return false
+    ownedCopies.value = new Map(ownedCopies.value)
+    wantedCounts.value = new Map(wantedCounts.value)
+    skippedCardIds.value = new Set(skippedCardIds.value)
+    saveEntries(entryIds)
+    return true
+  }
 
-    ownedCardIds.value = newOwned
-    skippedCardIds.value = newSkipped
-    saveToStorage(STORAGE_KEY, ownedCardIds.value)
-    saveToStorage(SKIPPED_STORAGE_KEY, skippedCardIds.value)
-  }
-
-  // Shift indices when a card is removed (remove the key at removeIndex, indices > removeIndex move down by 1)
-  function shiftIndicesForRemove(segmentId: string, removeIndex: number): void {
-    const prefix = `${segmentId}:`
-    const newOwned = new Set<string>()
-    const newSkipped = new Set<string>()
-
-    for (const key of ownedCardIds.value) {
-      if (key.startsWith(prefix)) {
-        const idx = parseInt(key.slice(prefix.length), 10)
-        if (idx === removeIndex) {
-          // Skip - this key is being removed
-        } else if (idx > removeIndex) {
-          newOwned.add(`${segmentId}:${idx - 1}`)
-        } else {
-          newOwned.add(key)
-        }
-      } else {
-        newOwned.add(key)
-      }
+  function forgetEntries(entryIds: string[]): void {
+    const changes: OwnershipChange[] = []
+    if (clearEntryState(entryIds, changes)) {
+      useAcquisitionsStore().recordOwnershipChanges(changes)
     }
+  }
 
-    for (const key of skippedCardIds.value) {
-      if (key.startsWith(prefix)) {
-        const idx = parseInt(key.slice(prefix.length), 10)
-        if (idx === removeIndex) {
-          // Skip - this key is being removed
-        } else if (idx > removeIndex) {
-          newSkipped.add(`${segmentId}:${idx - 1}`)
-        } else {
-          newSkipped.add(key)
-        }
-      } else {
-        newSkipped.add(key)
+  // Drop state left behind for entries that no longer exist (data repairs).
+  // No cards changed hands, so nothing is logged in the acquisitions ledger.
+  function discardEntries(entryIds: string[]): void {
+    clearEntryState(entryIds, [])
+  }
+
+  // Replace owned, wanted and skipped state with an earlier state (undo/redo)
+  function restoreSnapshot(owned: Record<string, OwnedCopy[]>, wanted: Record<string, number>, skipped: string[]): void {
+    const nextOwned = new Map(Object.entries(owned))
+    const nextWanted = new Map(Object.entries(wanted))
+    const nextSkipped = new Set(skipped)
+    const changed = new Set<string>()
+    for (const [current, next] of [[ownedCopies.value, nextOwned], [wantedCounts.value, nextWanted]] as const) {
+      for (const [entryId, value] of current) {
+        if (JSON.stringify(next.get(entryId)) !== JSON.stringify(value)) changed.add(entryId)
       }
+      for (const entryId of next.keys()) if (!current.has(entryId)) changed.add(entryId)
     }
+    for (const entryId of skippedCardIds.value) if (!nextSkipped.has(entryId)) changed.add(entryId)
+    for (const entryId of nextSkipped) if (!skippedCardIds.value.has(entryId)) changed.add(entryId)
+    ownedCopies.value = nextOwned
+    wantedCounts.value = nextWanted
+    skippedCardIds.value = nextSkipped
+    saveEntries([...changed])
+  }
 
-    ownedCardIds.value = newOwned
-    skippedCardIds.value = newSkipped
-    saveToStorage(STORAGE_KEY, ownedCardIds.value)
-    saveToStorage(SKIPPED_STORAGE_KEY, skippedCardIds.value)
+  function applyRecord(owned: Map<string, OwnedCopy[]>, wanted: Map<string, number>, record: CollectionRecord): void {
+    const copies = getRecordCopies(record)
+    if (copies.length > 0) owned.set(record.entryId, copies)
+    else owned.delete(record.entryId)
+    if (record.wantedCount !== undefined) wanted.set(record.entryId, record.wantedCount)
+    else wanted.delete(record.entryId)
   }
 
+  // Read ownership and skipped state from the database (at startup and after a backup restore)
+  async function load(): Promise<void> {
+    const records = await collectionRepository.getAll()
+    const owned = new Map<string, OwnedCopy[]>()
+    const wanted = new Map<string, number>()
+    for (const record of records) {
+      applyRecord(owned, wanted, record)
+    }
+    ownedCopies.value = owned
+    wantedCounts.value = wanted
+    skippedCardIds.value = new Set(records.filter(record => record.skipped).map(record => record.entryId))
+  }
+
+  // Keep in step with edits made in other tabs
+  collectionRepository.onRemoteChange(change => {
+    if (change.reload) {
+      load()
+    } else {
+      const owned = new Map(ownedCopies.value)
+      const wanted = new Map(wantedCounts.value)
+      const skipped = new Set(skippedCardIds.value)
+      for (const entryId of change.removedKeys) {
+        owned.delete(entryId)
+        wanted.delete(entryId)
+        skipped.delete(entryId)
+      }
+      for (const record of change.items) {
+        applyRecord(owned, wanted, record)
+        if (record.skipped) skipped.add(record.entryId)
+        else skipped.delete(record.entryId)
+      }
+      ownedCopies.value = owned
+      wantedCounts.value = wanted
+      skippedCardIds.value = skipped
+    }
+    // Undo steps were recorded against the state before this change
+    useHistoryStore().clear()
+  })
+
   return {
-    ownedCardIds,
+    ownedCopies,
+    wantedCounts,
     skippedCardIds,
+    getCopies,
+    getOwnedCount,
+    getWantedCount,
+    getCopyTarget,
+    getQualifyingCount,
     isOwned,
-    toggleOwned,
-    setOwned,
-    setMultipleOwned,
+    getCopyCounts,
+    setCopies: withHistory('collection', 'Edit owned copies', setCopies),
+    placeCopies: withHistory('collection', 'File cards into a slot', placeCopies),
+    importCopies: withHistory(
+      'collection',
+      (imported: Map<string, OwnedCopy[]>) => `Import copies into ${imported.size} slot${imported.size === 1 ? '' : 's'}`,
+      importCopies
+    ),
+    importSharedCopies: withHistory('collection', 'Import shared copies', importSharedCopies),
+    setOwnedCount: withHistory('collection', 'Change owned copies', setOwnedCount),
+    setWantedCount: withHistory('collection', 'Change wanted copies', setWantedCount),
+    toggleOwned: withHistory('collection', 'Toggle owned', toggleOwned),
+    setOwned: withHistory('collection', (_cardId: string, owned: boolean) => owned ? 'Mark owned' : 'Mark not owned', setOwned),
+    setMultipleOwned: withHistory(
+      'collection',
+      (cardIds: string[], owned: boolean) => `Mark ${cardIds.length} card${cardIds.length === 1 ? '' : 's'} ${owned ? 'owned' : 'not owned'}`,
+      setMultipleOwned
+    ),
     isSkipped,
-    toggleSkipped,
-    setSkipped,
-    shiftIndicesForInsert,
-    shiftIndicesForRemove
+    toggleSkipped: withHistory('collection', 'Toggle skipped', toggleSkipped),
+    setSkipped: withHistory('collection', (_cardId: string, skipped: boolean) => skipped ? 'Skip card' : 'Unskip card', setSkipped),
+    forgetEntries: withHistory('collection', 'Clear card state', forgetEntries),
+    discardEntries: withHistory('collection', 'Discard card state', discardEntries),
+    restoreSnapshot,
+    load
   }
 })
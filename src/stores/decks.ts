@@ -1,24 +1,19 @@
 import { defineStore } from 'pinia'
 import { ref, computed } from 'vue'
 import type { Deck, DeckCard } from '@/types'
-
-const STORAGE_KEY = 'spellbinder-decks'
+import { decksRepository, persist, applyRemoteChange } from '@/repositories'
+import type { DeckDiff } from '@/utils/deckSync'
 
 function generateId(): string {
   return crypto.randomUUID()
 }
 
-function loadFromStorage(): Deck[] {
-  const stored = localStorage.getItem(STORAGE_KEY)
-  return stored ? JSON.parse(stored) : []
-}
-
-function saveToStorage(decks: Deck[]): void {
-  localStorage.setItem(STORAGE_KEY, JSON.stringify(decks))
+function saveDeck(deck: Deck): void {
+  persist(decksRepository.put(deck))
 }
 
 export const useDecksStore = defineStore('decks', () => {
-  const decks = ref<Deck[]>(loadFromStorage())
+  const decks = ref<Deck[]>([])
 
   const deckMap = computed(() => {
     const map = new Map<string, Deck>()
@@ -52,7 +47,7 @@ export const useDecksStore = defineStore('decks', () => {
       updatedAt: now
     }
     decks.value.push(deck)
-    saveToStorage(decks.value)
+    saveDeck(deck)
     return deck
   }
 
@@ -61,21 +56,30 @@ export const useDecksStore = defineStore('decks', () => {
     if (index !== -1) {
       const existing = decks.value[index]
       if (existing) {
-        decks.value[index] = {
+        const updatedDeck = {
           ...existing,
           ...updates,
           updatedAt: Date.now()
         }
-        saveToStorage(decks.value)
+        decks.value[index] = updatedDeck
+        saveDeck(updatedDeck)
       }
     }
   }
 
+  // Apply a re-sync from Archidekt; cards still in the deck keep their ID and links
+  function syncDeck(id: string, name: string, diff: DeckDiff): void {
+    const cards = diff.pairs.map(({ card, next }): DeckCard => card
+      ? { ...card, scryfallId: next.scryfallId, name: next.name, quantity: next.quantity, category: next.category }
+      : { ...next, id: generateId() })
+    updateDeck(id, { name, cards })
+  }
+
   function removeDeck(id: string): void {
     const index = decks.value.findIndex(d => d.id === id)
     if (index !== -1) {
       decks.value.splice(index, 1)
-      saveToStorage(decks.value)
+      persist(decksRepository.remove(id))
     }
   }
 
@@ -86,7 +90,7 @@ export const useDecksStore = defineStore('decks', () => {
       if (card) {
         card.linkedCardKey = linkedCardKey
         deck.updatedAt = Date.now()
-        saveToStorage(decks.value)
+        saveDeck(deck)
       }
     }
   }
@@ -99,7 +103,7 @@ export const useDecksStore = defineStore('decks', () => {
         delete card.linkedCardKey
         delete card.linkedScryfallId
         deck.updatedAt = Date.now()
-        saveToStorage(decks.value)
+        saveDeck(deck)
       }
     }
   }
@@ -112,20 +116,36 @@ export const useDecksStore = defineStore('decks', () => {
         card.linkedScryfallId = scryfallId
         delete card.linkedCardKey  // Clear collection link when linking to Scryfall
         deck.updatedAt = Date.now()
-        saveToStorage(decks.value)
+        saveDeck(deck)
       }
     }
   }
 
+  // Read decks from the database (at startup and after a backup restore)
+  async function load(): Promise<void> {
+    decks.value = await decksRepository.getAll()
+  }
+
+  // Keep in step with edits made in other tabs
+  decksRepository.onRemoteChange(change => {
+    if (change.reload) {
+      load()
+    } else {
+      decks.value = applyRemoteChange(decks.value, change, deck => deck.id)
+    }
+  })
+
   return {
     decks,
     deckMap,
     getDeck,
     createDeck,
     updateDeck,
+    syncDeck,
     removeDeck,
     linkCard,
     unlinkCard,
-    linkCardToScryfall
+    linkCardToScryfall,
+    load
   }
 })
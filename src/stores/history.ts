@@ -0,0 +1,226 @@
+import { defineStore } from 'pinia'
+import { ref, computed } from 'vue'
+import { useBindersStore } from './binders'
+import { useSegmentsStore } from './segments'
+import { usePlansStore } from './plans'
+import { useCollectionStore } from './collection'
+import { useAcquisitionsStore } from './acquisitions'
+import { useInventoryStore } from './inventory'
+
+const MAX_HISTORY = 100
+
+type TrackedStore = 'binders' | 'segments' | 'plans' | 'collection' | 'acquisitions' | 'inventory'
+
+// Serialized state of one store before and after a history step
+interface StoreChange {
+  store: TrackedStore
+  before: string
+  after: string
+}
+
+export interface HistoryEntry {
+  id: string
+  label: string
+  timestamp: number
+  changes: StoreChange[]
+}
+
+function captureStore(store: TrackedStore): string {
+  switch (store) {
+    case 'binders':
+      return JSON.stringify(useBindersStore().binders)
+    case 'segments':
+      return JSON.stringify(useSegmentsStore().segments)
+    case 'plans':
+      return JSON.stringify(usePlansStore().plans)
+    case 'collection': {
+      const collectionStore = useCollectionStore()
+      return JSON.stringify({
+        owned: Object.fromEntries(collectionStore.ownedCopies),
+        wanted: Object.fromEntries(collectionStore.wantedCounts),
+        skipped: [...collectionStore.skippedCardIds]
+      })
+    }
+    case 'acquisitions':
+      return JSON.stringify(useAcquisitionsStore().events)
+    case 'inventory':
+      return JSON.stringify(useInventoryStore().items)
+  }
+}
+
+function restoreState(store: TrackedStore, json: string): void {
+  const state = JSON.parse(json)
+  switch (store) {
+    case 'binders':
+      useBindersStore().restoreSnapshot(state)
+      break
+    case 'segments':
+      useSegmentsStore().restoreSnapshot(state)
+      break
+    case 'plans':
+      usePlansStore().restoreSnapshot(state)
+      break
+    case 'collection':
+      useCollectionStore().restoreSnapshot(state.owned, state.wanted, state.skipped)
+      break
+    case 'acquisitions':
+      useAcquisitionsStore().restoreSnapshot(state)
+      break
+    case 'inventory':
+      useInventoryStore().restoreSnapshot(state)
+      break
+  }
+}
+
+/**
+ * Snapshot-based undo/redo for binders, segments, plans, collection state,
+ * the acquisition ledger and the unsorted inventory.
+ * Every tracked store action is recorded as one step; actions that run inside
+ * another recorded action (e.g. removing a card also clears its ownership)
+ * are grouped into the outermost step. A step only snapshots the stores its
+ * actions belong to, the first time each one is used.
+ *
+ * Steps are synchronous. Async work (fetching cards, saving images) is done
+ * before the step starts, so actions that run elsewhere while it waits get
+ * steps of their own.
+ */
+export const useHistoryStore = defineStore('history', () => {
+  const undoStack = ref<HistoryEntry[]>([])
+  const redoStack = ref<HistoryEntry[]>([])
+
+  // State of each store the open step has used, from before its first change
+  let openStep: Map<TrackedStore, string> | null = null
+  let isApplying = false
+
+  const canUndo = computed(() => undoStack.value.length > 0)
+  const canRedo = computed(() => redoStack.value.length > 0)
+  const nextUndo = computed(() => undoStack.value[undoStack.value.length - 1] ?? null)
+  const nextRedo = computed(() => redoStack.value[redoStack.value.length - 1] ?? null)
+
+  function commit(label: string, before: Map<TrackedStore, string>): void {
+    const changes: StoreChange[] = []
+    for (const [store, state] of before) {
+      const after = captureStore(store)
+      if (state !== after) {
+        changes.push({ store, before: state, after })
+      }
+    }
+    if (changes.length === 0) return
+
+    undoStack.value.push({ id: crypto.randomUUID(), label, timestamp: Date.now(), changes })
+    if (undoStack.value.length > MAX_HISTORY) {
+      undoStack.value.splice(0, undoStack.value.length - MAX_HISTORY)
+    }
+    redoStack.value = []
+  }
+
+  // Run an action and record everything it changes as a single step
+  function transact<T>(label: string, action: () => T): T {
+    if (isApplying || openStep) return action()
+
+    const before = new Map<TrackedStore, string>()
+    openStep = before
+    let result: T
+    try {
+      result = action()
+    } finally {
+      openStep = null
+      commit(label, before)
+    }
+    if (result instanceof Promise) {
+      throw new Error(`"${label}" is async; only its changes before the first await were recorded`)
+    }
+    return result
+  }
+
+  // Snapshot a store before the open step first changes it
+  function track(store: TrackedStore): void {
+    if (openStep && !openStep.has(store)) {
+      openStep.set(store, captureStore(store))
+    }
+  }
+
+  function apply(entry: HistoryEntry, direction: 'before' | 'after'): void {
+    isApplying = true
+    try {
+      for (const change of entry.changes) {
+        restoreState(change.store, change[direction])
+      }
+    } finally {
+      isApplying = false
+    }
+  }
+
+  function undo(): void {
+    if (openStep) return  // An action is still in progress
+    const entry = undoStack.value.pop()
+    if (!entry) return
+    apply(entry, 'before')
+    redoStack.value.push(entry)
+  }
+
+  function redo(): void {
+    if (openStep) return
+    const entry = redoStack.value.pop()
+    if (!entry) return
+    apply(entry, 'after')
+    undoStack.value.push(entry)
+  }
+
+  // Undo steps until the given entry has been undone
+  function undoTo(entryId: string): void {
+    if (!undoStack.value.some(entry => entry.id === entryId)) return
+    while (undoStack.value.length > 0) {
+      const entry = nextUndo.value
+      undo()
+      if (entry?.id === entryId) break
+    }
+  }
+
+  // Redo steps until the given entry has been redone
+  function redoTo(entryId: string): void {
+    if (!redoStack.value.some(entry => entry.id === entryId)) return
+    while (redoStack.value.length > 0) {
+      const entry = nextRedo.value
+      redo()
+      if (entry?.id === entryId) break
+    }
+  }
+
+  function clear(): void {
+    undoStack.value = []
+    redoStack.value = []
+  }
+
+  return {
+    undoStack,
+    redoStack,
+    canUndo,
+    canRedo,
+    nextUndo,
+    nextRedo,
+    transact,
+    track,
+    undo,
+    redo,
+    undoTo,
+    redoTo,
+    clear
+  }
+})
+
+// Wrap a store action so each call is recorded as a history step (or joins the open one)
+export function withHistory<F extends (...args: never[]) => unknown>(
+  store: TrackedStore,
+  label: string | ((...args: Parameters<F>) => string),
+  action: F
+): F {
+  return ((...args: Parameters<F>) => {
+    const history = useHistoryStore()
+    const text = typeof label === 'function' ? label(...args) : label
+    return history.transact(text, () => {
+      history.track(store)
+      return action(...args)
+    })
+  }) as F
+}
@@ -1,5 +1,29 @@
-export { useBindersStore } from './binders'
-export { useSegmentsStore } from './segments'
-export { usePlansStore } from './plans'
-export { useCollectionStore } from './collection'
-export { useDecksStore } from './decks'
+import { useBindersStore } from './binders'
+import { useSegmentsStore } from './segments'
+import { usePlansStore } from './plans'
+import { useCollectionStore } from './collection'
+import { useDecksStore } from './decks'
+import { useHistoryStore } from './history'
+import { usePendingActionsStore } from './pendingActions'
+import { useAcquisitionsStore } from './acquisitions'
+import { useInventoryStore } from './inventory'
+import { useValueSnapshotsStore } from './valueSnapshots'
+
+export { useBindersStore, useSegmentsStore, usePlansStore, useCollectionStore, useDecksStore, useHistoryStore, usePendingActionsStore, useAcquisitionsStore, useInventoryStore, useValueSnapshotsStore }
+
+// Load all persisted state from the database (App.vue waits for this before showing views)
+export async function loadStores(): Promise<void> {
+  await Promise.all([
+    useBindersStore().load(),
+    useSegmentsStore().load(),
+    usePlansStore().load(),
+    useCollectionStore().load(),
+    useDecksStore().load(),
+    usePendingActionsStore().load(),
+    useAcquisitionsStore().load(),
+    useInventoryStore().load(),
+    useValueSnapshotsStore().load()
+  ])
+  // Earlier history steps don't apply to freshly loaded data
+  useHistoryStore().clear()
+}
@@ -0,0 +1,175 @@
+import { defineStore } from 'pinia'
+import { ref, computed } from 'vue'
+import { copyMatchesTarget, DEFAULT_COPY, type InventoryItem, type OwnedCopy } from '@/types'
+import { inventoryRepository, persist, applyRemoteChange } from '@/repositories'
+import { withHistory, useHistoryStore } from './history'
+import { useSegmentsStore } from './segments'
+import { useCollectionStore } from './collection'
+
+function generateId(): string {
+  return crypto.randomUUID()
+}
+
+function saveItem(item: InventoryItem): void {
+  persist(inventoryRepository.put(item))
+}
+
+function toCopy(item: InventoryItem): OwnedCopy {
+  return { finish: item.finish, condition: item.condition, language: item.language }
+}
+
+// A planned slot still short of qualifying copies
+export interface OpenSlot {
+  entryId: string
+  segmentId: string
+  segmentName: string
+  missing: number
+}
+
+/**
+ * Owned cards that aren't placed in any set - bulk, duplicates and cards not
+ * filed yet. Copies can be moved from here into open planned slots.
+ */
+export const useInventoryStore = defineStore('inventory', () => {
+  const items = ref<InventoryItem[]>([])
+
+  // Total copies per Scryfall card ID
+  const quantities = computed(() => {
+    const map = new Map<string, number>()
+    for (const item of items.value) {
+      map.set(item.cardId, (map.get(item.cardId) ?? 0) + item.quantity)
+    }
+    return map
+  })
+
+  function getQuantity(cardId: string): number {
+    return quantities.value.get(cardId) ?? 0
+  }
+
+  // Copies with the same printing, finish, condition and language share an item
+  function addCards(cardId: string, quantity: number, copy: OwnedCopy = DEFAULT_COPY): InventoryItem {
+    const existing = items.value.find(item =>
+      item.cardId === cardId &&
+      item.finish === copy.finish &&
+      item.condition === copy.condition &&
+      item.language === copy.language
+    )
+    if (existing) {
+      const updated = { ...existing, quantity: existing.quantity + quantity }
+      items.value[items.value.indexOf(existing)] = updated
+      saveItem(updated)
+      return updated
+    }
+    const item: InventoryItem = {
+      id: generateId(),
+      cardId,
+      quantity,
+      ...copy,
+      addedAt: Date.now()
+    }
+    items.value.push(item)
+    saveItem(item)
+    return item
+  }
+
+  function updateItem(id: string, updates: Partial<Omit<InventoryItem, 'id' | 'cardId'>>): void {
+    const index = items.value.findIndex(item => item.id === id)
+    const existing = items.value[index]
+    if (!existing) return
+    const updated = { ...existing, ...updates }
+    if (updated.quantity <= 0) {
+      removeItem(id)
+      return
+    }
+    items.value[index] = updated
+    saveItem(updated)
+  }
+
+  function removeItem(id: string): void {
+    const index = items.value.findIndex(item => item.id === id)
+    if (index !== -1) {
+      items.value.splice(index, 1)
+      persist(inventoryRepository.remove(id))
+    }
+  }
+
+  // Planned slots for this printing that an item's copies would count towards
+  function getOpenSlots(item: InventoryItem): OpenSlot[] {
+    const collectionStore = useCollectionStore()
+    const copy = toCopy(item)
+    const slots: OpenSlot[] = []
+    for (const segment of useSegmentsStore().segments) {
+      if (!copyMatchesTarget(copy, segment.copyTarget)) continue
+      segment.cardIds.forEach((cardId, index) => {
+        const entryId = segment.entryIds[index]!
+        if (cardId !== item.cardId || collectionStore.isSkipped(entryId)) return
+        const missing = collectionStore.getWantedCount(entryId) - collectionStore.getQualifyingCount(entryId)
+        if (missing > 0) {
+          slots.push({ entryId, segmentId: segment.id, segmentName: segment.name, missing })
+        }
+      })
+    }
+    return slots
+  }
+
+  // Move copies from an item into a planned slot
+  function fileIntoSlot(itemId: string, entryId: string, quantity = 1): void {
+    const item = items.value.find(i => i.id === itemId)
+    if (!item) return
+    const moved = Math.min(quantity, item.quantity)
+    if (moved <= 0) return
+    useCollectionStore().placeCopies(entryId, Array.from({ length: moved }, () => toCopy(item)))
+    updateItem(itemId, { quantity: item.quantity - moved })
+  }
+
+  // Fill every open slot that unsorted copies qualify for; returns the number of copies moved
+  function fileAll(): number {
+    let filed = 0
+    for (const item of [...items.value]) {
+      for (const slot of getOpenSlots(item)) {
+        const current = items.value.find(i => i.id === item.id)
+        if (!current) break
+        const moved = Math.min(slot.missing, current.quantity)
+        fileIntoSlot(item.id, slot.entryId, moved)
+        filed += moved
+      }
+    }
+    return filed
+  }
+
+  // Replace all items with an earlier state (undo/redo)
+  function restoreSnapshot(snapshot: InventoryItem[]): void {
+    persist(inventoryRepository.saveChanges(items.value, snapshot))
+    items.value = snapshot
+  }
+
+  // Read the inventory from the database (at startup and after a backup restore)
+  async function load(): Promise<void> {
+    items.value = await inventoryRepository.getAll()
+  }
+
+  // Keep in step with edits made in other tabs
+  inventoryRepository.onRemoteChange(change => {
+    if (change.reload) {
+      load()
+    } else {
+      items.value = applyRemoteChange(items.value, change, item => item.id)
+    }
+    // Undo steps were recorded against the state before this change
+    useHistoryStore().clear()
+  })
+
+  return {
+    items,
+    quantities,
+    getQuantity,
+    addCards: withHistory('inventory', (_cardId: string, quantity: number) => `Add ${quantity} unsorted card${quantity === 1 ? '' : 's'}`, addCards),
+    updateItem: withHistory('inventory', 'Edit unsorted cards', updateItem),
+    removeItem: withHistory('inventory', 'Remove unsorted cards', removeItem),
+    getOpenSlots,
+    fileIntoSlot: withHistory('inventory', 'File card into slot', fileIntoSlot),
+    fileAll: withHistory('inventory', 'File unsorted cards', fileAll),
+    restoreSnapshot,
+    load
+  }
+})
@@ -0,0 +1,165 @@
+import { defineStore } from 'pinia'
+import { ref, computed, watch } from 'vue'
+import type { PendingAction } from '@/types'
+import { pendingActionsRepository, persist, applyRemoteChange } from '@/repositories'
+import { fetchArchidektDeck, convertArchidektCards } from '@/api/archidekt'
+import { fetchSetCards } from '@/api/scryfall'
+import { networkStatus, isNetworkError } from '@/utils/network'
+import { useDecksStore } from './decks'
+import { useSegmentsStore } from './segments'
+
+const QUEUE_LOCK_NAME = 'spellbinder-pending-actions'
+
+function generateId(): string {
+  return crypto.randomUUID()
+}
+
+// Only one tab works through the queue at a time
+async function withQueueLock(work: () => Promise<void>): Promise<void> {
+  if ('locks' in navigator) {
+    await navigator.locks.request(QUEUE_LOCK_NAME, work)
+  } else {
+    await work()
+  }
+}
+
+async function runAction(action: PendingAction): Promise<void> {
+  switch (action.type) {
+    case 'import-archidekt-deck': {
+      const deck = await fetchArchidektDeck(action.deckId)
+      useDecksStore().createDeck(deck.name, convertArchidektCards(deck.cards), action.deckId, action.url)
+      break
+    }
+    case 'download-set-cards': {
+      const cards = await fetchSetCards(action.setCode)
+      if (action.segmentId) {
+        useSegmentsStore().fillSegment(action.segmentId, cards.map(card => card.id))
+      }
+      break
+    }
+  }
+}
+
+/**
+ * Actions that need the network, queued while offline. The queue is saved in
+ * the database and runs whenever the app starts or the connection comes back.
+ */
+export const usePendingActionsStore = defineStore('pendingActions', () => {
+  const actions = ref<PendingAction[]>([])
+  const isProcessing = ref(false)
+
+  const failedActions = computed(() => actions.value.filter(action => action.error))
+
+  function add(action: PendingAction): PendingAction {
+    actions.value.push(action)
+    persist(pendingActionsRepository.put(action))
+    return action
+  }
+
+  function queueDeckImport(deckId: string, url?: string): PendingAction {
+    return add({
+      id: generateId(),
+      type: 'import-archidekt-deck',
+      label: `Import Archidekt deck ${deckId}`,
+      createdAt: Date.now(),
+      deckId,
+      url
+    })
+  }
+
+  function queueSetDownload(setCode: string, setName: string, segmentId?: string): PendingAction {
+    return add({
+      id: generateId(),
+      type: 'download-set-cards',
+      label: `Download cards for ${setName}`,
+      createdAt: Date.now(),
+      setCode,
+      segmentId
+    })
+  }
+
+  function remove(id: string): void {
+    const index = actions.value.findIndex(action => action.id === id)
+    if (index !== -1) {
+      actions.value.splice(index, 1)
+      persist(pendingActionsRepository.remove(id))
+    }
+  }
+
+  // Queue a failed action to be tried again
+  function retry(id: string): void {
+    const action = actions.value.find(a => a.id === id)
+    if (!action) return
+    delete action.error
+    persist(pendingActionsRepository.put(action))
+    processQueue()
+  }
+
+  function markFailed(action: PendingAction, error: unknown): void {
+    const message = error instanceof Error ? error.message : 'Failed'
+    const updated = { ...action, error: message }
+    const index = actions.value.findIndex(a => a.id === action.id)
+    if (index !== -1) {
+      actions.value[index] = updated
+    }
+    persist(pendingActionsRepository.put(updated))
+  }
+
+  // Run queued actions in order until the queue is empty or the network drops again
+  async function processQueue(): Promise<void> {
+    if (isProcessing.value || !networkStatus.online) return
+    isProcessing.value = true
+    try {
+      await withQueueLock(async () => {
+        // Read the saved queue - another tab may already have run some of it
+        const queued = await pendingActionsRepository.getAll()
+        for (const action of queued) {
+          if (action.error) continue
+          if (!networkStatus.online) break
+          try {
+            await runAction(action)
+          } catch (error) {
+            if (isNetworkError(error)) break
+            // Anything else won't fix itself: show it and stop running the action
+            markFailed(action, error)
+            continue
+          }
+          await pendingActionsRepository.remove(action.id)
+          actions.value = actions.value.filter(a => a.id !== action.id)
+        }
+      })
+    } finally {
+      isProcessing.value = false
+    }
+  }
+
+  // Read the queue from the database (at startup)
+  async function load(): Promise<void> {
+    actions.value = await pendingActionsRepository.getAll()
+  }
+
+  // Keep in step with other tabs queueing or running actions
+  pendingActionsRepository.onRemoteChange(change => {
+    if (change.reload) {
+      load()
+    } else {
+      actions.value = applyRemoteChange(actions.value, change, action => action.id)
+    }
+  })
+
+  watch(() => networkStatus.online, online => {
+    if (online) processQueue()
+  })
+
+  return {
+    actions,
+    failedActions,
+    isProcessing,
+    queueDeckImport,
+    queueSetDownload,
+    remove,
+    retry,
+    processQueue,
+    load
+  }
+})
@@ -1,24 +1,19 @@
 import { defineStore } from 'pinia'
 import { ref, computed } from 'vue'
 import type { BinderPlan } from '@/types'
-
-const STORAGE_KEY = 'spellbinder-plans'
+import { plansRepository, persist, applyRemoteChange } from '@/repositories'
+import { withHistory, useHistoryStore } from './history'
 
 function generateId(): string {
   return crypto.randomUUID()
 }
 
-function loadFromStorage(): BinderPlan[] {
-  const stored = localStorage.getItem(STORAGE_KEY)
-  return stored ? JSON.parse(stored) : []
-}
-
-function saveToStorage(plans: BinderPlan[]): void {
-  localStorage.setItem(STORAGE_KEY, JSON.stringify(plans))
+function savePlan(plan: BinderPlan): void {
+  persist(plansRepository.put(plan))
 }
 
 export const usePlansStore = defineStore('plans', () => {
-  const plans = ref<BinderPlan[]>(loadFromStorage())
+  const plans = ref<BinderPlan[]>([])
 
   const planMap = computed(() => {
     const map = new Map<string, BinderPlan>()
@@ -40,7 +35,7 @@ export const usePlansStore = defineStore('plans', () => {
       segmentIds: []
     }
     plans.value.push(plan)
-    saveToStorage(plans.value)
+    savePlan(plan)
     return plan
   }
 
@@ -49,8 +44,9 @@ export const usePlansStore = defineStore('plans', () => {
     if (index !== -1) {
       const existing = plans.value[index]
       if (existing) {
-        plans.value[index] = { ...existing, ...updates }
-        saveToStorage(plans.value)
+        const updatedPlan = { ...existing, ...updates }
+        plans.value[index] = updatedPlan
+        savePlan(updatedPlan)
       }
     }
   }
@@ -59,7 +55,7 @@ export const usePlansStore = defineStore('plans', () => {
     const index = plans.value.findIndex(p => p.id === id)
     if (index !== -1) {
       plans.value.splice(index, 1)
-      saveToStorage(plans.value)
+      persist(plansRepository.remove(id))
     }
   }
 
@@ -67,7 +63,7 @@ export const usePlansStore = defineStore('plans', () => {
     const plan = getPlan(planId)
     if (plan && !plan.binderIds.includes(binderId)) {
       plan.binderIds.push(binderId)
-      saveToStorage(plans.value)
+      savePlan(plan)
     }
   }
 
@@ -77,7 +73,7 @@ export const usePlansStore = defineStore('plans', () => {
       const index = plan.binderIds.indexOf(binderId)
       if (index !== -1) {
         plan.binderIds.splice(index, 1)
-        saveToStorage(plans.value)
+        savePlan(plan)
       }
     }
   }
@@ -86,7 +82,7 @@ export const usePlansStore = defineStore('plans', () => {
     const plan = getPlan(planId)
     if (plan) {
       plan.binderIds = binderIds
-      saveToStorage(plans.value)
+      savePlan(plan)
     }
   }
 
@@ -94,7 +90,7 @@ export const usePlansStore = defineStore('plans', () => {
     const plan = getPlan(planId)
     if (plan && !plan.segmentIds.includes(segmentId)) {
       plan.segmentIds.push(segmentId)
-      saveToStorage(plans.value)
+      savePlan(plan)
     }
   }
 
@@ -102,7 +98,7 @@ export const usePlansStore = defineStore('plans', () => {
     const plan = getPlan(planId)
     if (plan && !plan.segmentIds.includes(segmentId)) {
       plan.segmentIds.splice(index, 0, segmentId)
-      saveToStorage(plans.value)
+      savePlan(plan)
     }
   }
 
@@ -112,7 +108,7 @@ export const usePlansStore = defineStore('plans', () => {
       const index = plan.segmentIds.indexOf(segmentId)
       if (index !== -1) {
         plan.segmentIds.splice(index, 1)
-        saveToStorage(plans.value)
+        savePlan(plan)
       }
     }
   }
@@ -121,23 +117,47 @@ export const usePlansStore = defineStore('plans', () => {
     const plan = getPlan(planId)
     if (plan) {
       plan.segmentIds = segmentIds
-      saveToStorage(plans.value)
+      savePlan(plan)
     }
   }
 
+  // Replace all plans with an earlier state (undo/redo)
+  function restoreSnapshot(snapshot: BinderPlan[]): void {
+    persist(plansRepository.saveChanges(plans.value, snapshot))
+    plans.value = snapshot
+  }
+
+  // Read plans from the database (at startup and after a backup restore)
+  async function load(): Promise<void> {
+    plans.value = await plansRepository.getAll()
+  }
+
+  // Keep in step with edits made in other tabs
+  plansRepository.onRemoteChange(change => {
+    if (change.reload) {
+      load()
+    } else {
+      plans.value = applyRemoteChange(plans.value, change, plan => plan.id)
+    }
+    // Undo steps were recorded against the state before this change
+    useHistoryStore().clear()
+  })
+
   return {
     plans,
     planMap,
     getPlan,
-    createPlan,
-    updatePlan,
-    removePlan,
-    addBinderToPlan,
-    removeBinderFromPlan,
-    reorderBinders,
-    addSegmentToPlan,
-    insertSegmentInPlan,
-    removeSegmentFromPlan,
-    reorderSegments
+    createPlan: withHistory('plans', name => `Create set "${name}"`, createPlan),
+    updatePlan: withHistory('plans', 'Edit set', updatePlan),
+    removePlan: withHistory('plans', 'Delete set', removePlan),
+    addBinderToPlan: withHistory('plans', 'Add storage to set', addBinderToPlan),
+    removeBinderFromPlan: withHistory('plans', 'Remove storage from set', removeBinderFromPlan),
+    reorderBinders: withHistory('plans', 'Reorder storage', reorderBinders),
+    addSegmentToPlan: withHistory('plans', 'Add segment to set', addSegmentToPlan),
+    insertSegmentInPlan: withHistory('plans', 'Add segment to set', insertSegmentInPlan),
+    removeSegmentFromPlan: withHistory('plans', 'Remove segment from set', removeSegmentFromPlan),
+    reorderSegments: withHistory('plans', 'Reorder segments', reorderSegments),
+    restoreSnapshot,
+    load
   }
 })
@@ -2,45 +2,19 @@ import { defineStore } from 'pinia'
 import { ref, computed } from 'vue'
 import type { Segment } from '@/types'
 import { useCollectionStore } from './collection'
-
-const STORAGE_KEY = 'spellbinder-segments'
+import { segmentsRepository, persist, applyRemoteChange } from '@/repositories'
+import { withHistory, useHistoryStore } from './history'
 
 function generateId(): string {
   return crypto.randomUUID()
 }
 
-function loadFromStorage(): Segment[] {
-  const stored = localStorage.getItem(STORAGE_KEY)
-  if (!stored) return []
-  const segments: unknown[] = JSON.parse(stored)
-  return segments.map((s: unknown) => {
-    const seg = s as Record<string, unknown>
-    // Migrate old spacersBefore format (string[]) to new format (Record<number, number>)
-    let spacersBefore: Record<number, number> = {}
-    if (Array.isArray(seg.spacersBefore)) {
-      // Old format was card IDs - we can't migrate these meaningfully, start fresh
-      spacersBefore = {}
-    } else if (seg.spacersBefore && typeof seg.spacersBefore === 'object') {
-      spacersBefore = seg.spacersBefore as Record<number, number>
-    }
-    return {
-      id: seg.id as string,
-      name: seg.name as string,
-      scryfallSetCode: seg.scryfallSetCode as string,
-      cardIds: seg.cardIds as string[],
-      offset: (seg.offset as number) ?? 0,
-      targetBinderId: seg.targetBinderId as string | undefined,
-      spacersBefore
-    }
-  })
-}
-
-function saveToStorage(segments: Segment[]): void {
-  localStorage.setItem(STORAGE_KEY, JSON.stringify(segments))
+function saveSegment(segment: Segment): void {
+  persist(segmentsRepository.put(segment))
 }
 
 export const useSegmentsStore = defineStore('segments', () => {
-  const segments = ref<Segment[]>(loadFromStorage())
+  const segments = ref<Segment[]>([])
 
   const segmentMap = computed(() => {
     const map = new Map<string, Segment>()
@@ -64,22 +38,24 @@ export const useSegmentsStore = defineStore('segments', () => {
       name,
       scryfallSetCode,
       cardIds,
+      entryIds: cardIds.map(() => generateId()),
       offset,
       targetBinderId,
       spacersBefore: {}
     }
     segments.value.push(segment)
-    saveToStorage(segments.value)
+    saveSegment(segment)
     return segment
   }
 
-  function updateSegment(id: string, updates: Partial<Omit<Segment, 'id'>>): void {
+  function updateSegment(id: string, updates: Partial<Omit<Segment, 'id' | 'cardIds' | 'entryIds'>>): void {
     const index = segments.value.findIndex(s => s.id === id)
     if (index !== -1) {
       const existing = segments.value[index]
       if (existing) {
-        segments.value[index] = { ...existing, ...updates }
-        saveToStorage(segments.value)
+        const updatedSegment = { ...existing, ...updates }
+        segments.value[index] = updatedSegment
+        saveSegment(updatedSegment)
       }
     }
   }
@@ -88,7 +64,7 @@ export const useSegmentsStore = defineStore('segments', () => {
     const index = segments.value.findIndex(s => s.id === id)
     if (index !== -1) {
       segments.value.splice(index, 1)
-      saveToStorage(segments.value)
+      persist(segmentsRepository.remove(id))
     }
   }
 
@@ -96,123 +72,110 @@ export const useSegmentsStore = defineStore('segments', () => {
     const segment = segmentMap.value.get(segmentId)
     if (segment) {
       const cardIndex = segment.cardIds.indexOf(cardId)
-      if (cardIndex !== -1) {
-        removeCardAtIndex(segmentId, cardIndex)
+      const entryId = segment.entryIds[cardIndex]
+      if (entryId) {
+        removeEntry(segmentId, entryId)
       }
     }
   }
 
-  function removeCardAtIndex(segmentId: string, cardIndex: number): void {
+  function removeEntry(segmentId: string, entryId: string): void {
     const segment = segmentMap.value.get(segmentId)
-    if (!segment || cardIndex < 0 || cardIndex >= segment.cardIds.length) return
-
-    segment.cardIds.splice(cardIndex, 1)
-
-    // Update spacersBefore: remove spacer for this card and shift indices down
-    const newSpacers: Record<number, number> = {}
-    for (const [indexStr, count] of Object.entries(segment.spacersBefore)) {
-      const idx = parseInt(indexStr, 10)
-      if (idx < cardIndex) {
-        newSpacers[idx] = count
-      } else if (idx > cardIndex) {
-        newSpacers[idx - 1] = count
-      }
-      // Skip idx === cardIndex (remove the spacer for the removed card)
-    }
-    segment.spacersBefore = newSpacers
+    if (!segment) return
+    const entryIndex = segment.entryIds.indexOf(entryId)
+    if (entryIndex === -1) return
 
-    // Shift ownership/skipped indices in collection store
+    // Ownership/skipped state for this entry is no longer meaningful. It's
+    // dropped while the entry still exists so ledger events keep its card.
     const collectionStore = useCollectionStore()
-    collectionStore.shiftIndicesForRemove(segmentId, cardIndex)
+    collectionStore.forgetEntries([entryId])
+
+    segment.cardIds.splice(entryIndex, 1)
+    segment.entryIds.splice(entryIndex, 1)
+
+    const newSpacers = { ...segment.spacersBefore }
+    delete newSpacers[entryId]
+    segment.spacersBefore = newSpacers
 
-    saveToStorage(segments.value)
+    saveSegment(segment)
   }
 
-  function insertCardInSegment(segmentId: string, cardId: string, insertBeforeCardId: string | null): void {
+  // Give a segment that was created without cards (e.g. while offline) its card list
+  function fillSegment(segmentId: string, cardIds: string[]): void {
     const segment = segmentMap.value.get(segmentId)
-    if (!segment) return
+    if (!segment || segment.cardIds.length > 0) return
 
-    if (insertBeforeCardId) {
-      // Insert before a specific card
-      const index = segment.cardIds.indexOf(insertBeforeCardId)
-      if (index !== -1) {
-        // Check if the target card has spacers (the new card may be filling one)
-        const existingSpacers = segment.spacersBefore[index] ?? 0
-
-        // Shift ownership/skipped indices in collection store BEFORE inserting
-        const collectionStore = useCollectionStore()
-        collectionStore.shiftIndicesForInsert(segmentId, index)
-
-        segment.cardIds.splice(index, 0, cardId)
-
-        // Shift spacer indices up for cards at or after the insertion point
-        const newSpacers: Record<number, number> = {}
-        for (const [indexStr, count] of Object.entries(segment.spacersBefore)) {
-          const idx = parseInt(indexStr, 10)
-          if (idx < index) {
-            newSpacers[idx] = count
-          } else {
-            newSpacers[idx + 1] = count
-          }
-        }
+    segment.cardIds = [...cardIds]
+    segment.entryIds = cardIds.map(() => generateId())
+    saveSegment(segment)
+  }
 
-        // If the target card had spacers, the new card fills one of those blank slots
-        // Reduce the spacer count by 1 (it stays with the original card, now shifted)
-        if (existingSpacers > 0) {
-          if (existingSpacers > 1) {
-            newSpacers[index + 1] = existingSpacers - 1
-          } else {
-            // Only 1 spacer which is now filled by the new card
-            delete newSpacers[index + 1]
-          }
+  // Insert a card before an existing entry (or at the end). Returns the new entry's ID.
+  function insertCardInSegment(segmentId: string, cardId: string, insertBeforeEntryId: string | null): string | null {
+    const segment = segmentMap.value.get(segmentId)
+    if (!segment) return null
+
+    const entryId = generateId()
+    const index = insertBeforeEntryId ? segment.entryIds.indexOf(insertBeforeEntryId) : -1
+
+    if (insertBeforeEntryId && index !== -1) {
+      segment.cardIds.splice(index, 0, cardId)
+      segment.entryIds.splice(index, 0, entryId)
+
+      // If the target entry had spacers, the new card fills one of those blank slots
+      const existingSpacers = segment.spacersBefore[insertBeforeEntryId] ?? 0
+      if (existingSpacers > 0) {
+        const newSpacers = { ...segment.spacersBefore }
+        if (existingSpacers > 1) {
+          newSpacers[insertBeforeEntryId] = existingSpacers - 1
+        } else {
+          delete newSpacers[insertBeforeEntryId]
         }
-
         segment.spacersBefore = newSpacers
-      } else {
-        // Fallback: add to end
-        segment.cardIds.push(cardId)
       }
     } else {
       // Add to end of segment
       segment.cardIds.push(cardId)
+      segment.entryIds.push(entryId)
     }
-    saveToStorage(segments.value)
+    saveSegment(segment)
+    return entryId
   }
 
-  function addSpacerBefore(segmentId: string, cardIndex: number): void {
+  function addSpacerBefore(segmentId: string, entryId: string): void {
     const segmentIndex = segments.value.findIndex(s => s.id === segmentId)
     if (segmentIndex === -1) return
     const segment = segments.value[segmentIndex]
-    if (!segment || cardIndex < 0 || cardIndex >= segment.cardIds.length) return
+    if (!segment || !segment.entryIds.includes(entryId)) return
 
-    const current = segment.spacersBefore[cardIndex] ?? 0
+    const current = segment.spacersBefore[entryId] ?? 0
     const updatedSegment = {
       ...segment,
-      spacersBefore: { ...segment.spacersBefore, [cardIndex]: current + 1 }
+      spacersBefore: { ...segment.spacersBefore, [entryId]: current + 1 }
     }
     segments.value = [
       ...segments.value.slice(0, segmentIndex),
       updatedSegment,
       ...segments.value.slice(segmentIndex + 1)
     ]
-    saveToStorage(segments.value)
+    saveSegment(updatedSegment)
   }
 
-  function removeSpacerBefore(segmentId: string, cardIndex: number): void {
+  function removeSpacerBefore(segmentId: string, entryId: string): void {
     const segmentIndex = segments.value.findIndex(s => s.id === segmentId)
     if (segmentIndex === -1) return
     const segment = segments.value[segmentIndex]
-    if (!segment || cardIndex < 0 || cardIndex >= segment.cardIds.length) return
+    if (!segment || !segment.entryIds.includes(entryId)) return
 
-    const current = segment.spacersBefore[cardIndex] ?? 0
+    const current = segment.spacersBefore[entryId] ?? 0
     if (current <= 0) return
 
-    let newSpacers: Record<number, number>
+    let newSpacers: Record<string, number>
     if (current > 1) {
-      newSpacers = { ...segment.spacersBefore, [cardIndex]: current - 1 }
+      newSpacers = { ...segment.spacersBefore, [entryId]: current - 1 }
     } else {
       newSpacers = { ...segment.spacersBefore }
-      delete newSpacers[cardIndex]
+      delete newSpacers[entryId]
     }
 
     const updatedSegment = { ...segment, spacersBefore: newSpacers }
@@ -221,32 +184,57 @@ export const useSegmentsStore = defineStore('segments', () => {
       updatedSegment,
       ...segments.value.slice(segmentIndex + 1)
     ]
-    saveToStorage(segments.value)
+    saveSegment(updatedSegment)
   }
 
-  function getSpacerCount(segmentId: string, cardIndex: number): number {
+  function getSpacerCount(segmentId: string, entryId: string): number {
     const segment = segmentMap.value.get(segmentId)
-    return segment?.spacersBefore[cardIndex] ?? 0
+    return segment?.spacersBefore[entryId] ?? 0
   }
 
   function getSegmentsInOrder(ids: string[]): Segment[] {
     return ids.map(id => segmentMap.value.get(id)).filter((s): s is Segment => s !== undefined)
   }
 
+  // Replace all segments with an earlier state (undo/redo)
+  function restoreSnapshot(snapshot: Segment[]): void {
+    persist(segmentsRepository.saveChanges(segments.value, snapshot))
+    segments.value = snapshot
+  }
+
+  // Read segments from the database (at startup and after a backup restore)
+  async function load(): Promise<void> {
+    segments.value = await segmentsRepository.getAll()
+  }
+
+  // Keep in step with edits made in other tabs
+  segmentsRepository.onRemoteChange(change => {
+    if (change.reload) {
+      load()
+    } else {
+      segments.value = applyRemoteChange(segments.value, change, segment => segment.id)
+    }
+    // Undo steps were recorded against the state before this change
+    useHistoryStore().clear()
+  })
+
   return {
     segments,
     segmentMap,
     getSegment,
     getSegmentCardCount,
-    addSegment,
-    updateSegment,
-    removeSegment,
-    removeCardFromSegment,
-    removeCardAtIndex,
-    insertCardInSegment,
-    addSpacerBefore,
-    removeSpacerBefore,
+    addSegment: withHistory('segments', name => `Add segment "${name}"`, addSegment),
+    updateSegment: withHistory('segments', 'Edit segment', updateSegment),
+    removeSegment: withHistory('segments', 'Delete segment', removeSegment),
+    removeCardFromSegment: withHistory('segments', 'Remove card', removeCardFromSegment),
+    removeEntry: withHistory('segments', 'Remove card', removeEntry),
+    insertCardInSegment: withHistory('segments', 'Insert card', insertCardInSegment),
+    fillSegment: withHistory('segments', 'Download segment cards', fillSegment),
+    addSpacerBefore: withHistory('segments', 'Add spacer', addSpacerBefore),
+    removeSpacerBefore: withHistory('segments', 'Remove spacer', removeSpacerBefore),
     getSpacerCount,
-    getSegmentsInOrder
+    getSegmentsInOrder,
+    restoreSnapshot,
+    load
   }
 })
@@ -0,0 +1,171 @@
+import { defineStore } from 'pinia'
+import { ref, computed } from 'vue'
+import type { PriceCurrency, ScryfallCard, SnapshotValues, ValueSnapshot } from '@/types'
+import { valueSnapshotsRepository, persist, applyRemoteChange } from '@/repositories'
+import { getCachedCards, refreshCards } from '@/api/scryfall'
+import { isNetworkError } from '@/utils/network'
+import { useCollectionValue } from '@/composables/useCollectionValue'
+import { getCardPrice, PRICE_CURRENCIES } from '@/utils/prices'
+import { usePlansStore } from './plans'
+import { useSegmentsStore } from './segments'
+import { useCollectionStore } from './collection'
+import { useInventoryStore } from './inventory'
+
+const DAILY_STORAGE_KEY = 'spellbinder-daily-value-snapshots'
+
+// Scryfall updates prices once a day
+const PRICE_MAX_AGE_MS = 24 * 60 * 60 * 1000
+
+// Refresh at most this many cards' prices per snapshot, oldest first.
+// The rest catch up over the following days.
+const PRICE_REFRESH_LIMIT = 750
+
+function generateId(): string {
+  return crypto.randomUUID()
+}
+
+// Local date as YYYY-MM-DD
+function today(): string {
+  const now = new Date()
+  return `${now.getFullYear()}-${String(now.getMonth() + 1).padStart(2, '0')}-${String(now.getDate()).padStart(2, '0')}`
+}
+
+/**
+ * Snapshots of owned cards' prices and the collection's value, one per day at
+ * most. Taken on demand, or automatically the first time the app opens each day.
+ */
+export const useValueSnapshotsStore = defineStore('valueSnapshots', () => {
+  const snapshots = ref<ValueSnapshot[]>([])
+  const dailyEnabled = ref(localStorage.getItem(DAILY_STORAGE_KEY) !== 'false')
+  const isTaking = ref(false)
+
+  // Oldest first
+  const sortedSnapshots = computed(() =>
+    [...snapshots.value].sort((a, b) => a.date.localeCompare(b.date))
+  )
+
+  function setDailyEnabled(enabled: boolean): void {
+    dailyEnabled.value = enabled
+    localStorage.setItem(DAILY_STORAGE_KEY, String(enabled))
+  }
+
+  // Record today's prices and values, replacing an earlier snapshot from today
+  async function takeSnapshot(): Promise<ValueSnapshot> {
+    isTaking.value = true
+    try {
+      const collectionStore = useCollectionStore()
+      const inventoryStore = useInventoryStore()
+      const segmentsStore = useSegmentsStore()
+      const { summarizeValue } = useCollectionValue()
+
+      // Only owned cards contribute value
+      const cardIds = new Set<string>()
+      for (const segment of segmentsStore.segments) {
+        segment.cardIds.forEach((cardId, index) => {
+          if (collectionStore.getOwnedCount(segment.entryIds[index]!) > 0) cardIds.add(cardId)
+        })
+      }
+      for (const item of inventoryStore.items) cardIds.add(item.cardId)
+      const cards = await getCachedCards([...cardIds])
+
+      // Cached cards can be weeks old, so prices are fetched again before they're recorded.
+      // Without a connection the cached prices are recorded and the snapshot is marked stale.
+      const isOutdated = (card: ScryfallCard) => !card.prices || Date.now() - card.prices.updatedAt > PRICE_MAX_AGE_MS
+      const outdatedIds = [...cards.values()]
+        .filter(isOutdated)
+        .sort((a, b) => (a.prices?.updatedAt ?? 0) - (b.prices?.updatedAt ?? 0))
+        .slice(0, PRICE_REFRESH_LIMIT)
+        .map(card => card.id)
+      try {
+        for (const card of await refreshCards(outdatedIds)) cards.set(card.id, card)
+      } catch (error) {
+        if (!isNetworkError(error)) throw error
+        console.warn('Could not update prices, recording cached prices instead:', error)
+      }
+      const stalePrices = [...cards.values()].some(isOutdated)
+
+      function segmentSlots(segmentIds: string[]) {
+        return segmentsStore.getSegmentsInOrder(segmentIds).flatMap(segment =>
+          segment.cardIds.map((cardId, index) => ({ entryId: segment.entryIds[index]!, card: cards.get(cardId) }))
+        )
+      }
+
+      const values = {} as Record<PriceCurrency, SnapshotValues>
+      for (const currency of PRICE_CURRENCIES) {
+        const plans: Record<string, number> = {}
+        for (const plan of usePlansStore().plans) {
+          plans[plan.id] = summarizeValue(segmentSlots(plan.segmentIds), currency).owned
+        }
+        let total = summarizeValue(segmentSlots(segmentsStore.segments.map(segment => segment.id)), currency).owned
+        for (const item of inventoryStore.items) {
+          const card = cards.get(item.cardId)
+          total += item.quantity * ((card && getCardPrice(card, item.finish, currency)) ?? 0)
+        }
+        values[currency] = { total, plans }
+      }
+
+      const prices: ValueSnapshot['prices'] = {}
+      for (const [cardId, card] of cards) {
+        if (!card.prices) continue
+        const { updatedAt: _, ...cardPrices } = card.prices
+        prices[cardId] = cardPrices
+      }
+
+      const date = today()
+      const existing = snapshots.value.find(snapshot => snapshot.date === date)
+      const snapshot: ValueSnapshot = {
+        id: existing?.id ?? generateId(),
+        date,
+        takenAt: Date.now(),
+        prices,
+        values,
+        stalePrices: stalePrices || undefined
+      }
+      snapshots.value = [...snapshots.value.filter(s => s.id !== snapshot.id), snapshot]
+      persist(valueSnapshotsRepository.put(snapshot))
+      return snapshot
+    } finally {
+      isTaking.value = false
+    }
+  }
+
+  // Called when the app opens
+  async function takeDailySnapshot(): Promise<void> {
+    if (!dailyEnabled.value || snapshots.value.some(snapshot => snapshot.date === today())) return
+    await takeSnapshot()
+  }
+
+  function removeSnapshot(id: string): void {
+    const index = snapshots.value.findIndex(snapshot => snapshot.id === id)
+    if (index !== -1) {
+      snapshots.value.splice(index, 1)
+      persist(valueSnapshotsRepository.remove(id))
+    }
+  }
+
+  // Read snapshots from the database (at startup and after a backup restore)
+  async function load(): Promise<void> {
+    snapshots.value = await valueSnapshotsRepository.getAll()
+  }
+
+  // Keep in step with snapshots taken in other tabs
+  valueSnapshotsRepository.onRemoteChange(change => {
+    if (change.reload) {
+      load()
+    } else {
+      snapshots.value = applyRemoteChange(snapshots.value, change, snapshot => snapshot.id)
+    }
+  })
+
+  return {
+    snapshots,
+    sortedSnapshots,
+    dailyEnabled,
+    isTaking,
+    setDailyEnabled,
+    takeSnapshot,
+    takeDailySnapshot,
+    removeSnapshot,
+    load
+  }
+})
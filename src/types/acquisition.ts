@@ -0,0 +1,28 @@
+export type AcquisitionSource = 'pack' | 'trade' | 'store' | 'cardmarket' | 'other'
+
+// Copies gained, or copies given up when ownership is removed
+export type AcquisitionKind = 'acquired' | 'disposed'
+
+export interface AcquisitionEvent {
+  id: string
+  entryId: string           // Segment entry the copies were added to or removed from
+  cardId?: string           // Scryfall card ID, kept so history survives the entry being removed
+  kind: AcquisitionKind
+  quantity: number
+  date: string              // YYYY-MM-DD
+  price?: number            // Total paid (or received, for disposals)
+  currency?: string         // ISO currency code
+  source?: AcquisitionSource
+  note?: string
+  createdAt: number
+}
+
+export const ACQUISITION_SOURCES: { value: AcquisitionSource; label: string }[] = [
+  { value: 'pack', label: 'Pack' },
+  { value: 'trade', label: 'Trade' },
+  { value: 'store', label: 'Store' },
+  { value: 'cardmarket', label: 'Cardmarket order' },
+  { value: 'other', label: 'Other' }
+]
+
+export const CURRENCIES = ['USD', 'EUR', 'GBP', 'CAD', 'AUD', 'JPY']
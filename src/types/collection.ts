@@ -0,0 +1,94 @@
+export type CardFinish = 'nonfoil' | 'foil' | 'etched'
+
+// Best to worst
+export type CardCondition = 'NM' | 'LP' | 'MP' | 'HP' | 'DMG'
+
+// One physical copy of a card held in a collection slot
+export interface OwnedCopy {
+  finish: CardFinish
+  condition: CardCondition
+  language: string  // Scryfall language code (en, ja, de, ...)
+}
+
+// Which copies count towards a segment's completion - unset fields accept anything
+export interface CopyTarget {
+  finish?: CardFinish
+  minCondition?: CardCondition
+  language?: string
+}
+
+// Read access to owned, wanted and skipped state - the local collection, or the one in a shared set
+export interface OwnershipLookup {
+  getOwnedCount(entryId: string): number
+  getWantedCount(entryId: string): number
+  getQualifyingCount(entryId: string): number
+  isOwned(entryId: string): boolean
+  isSkipped(entryId: string): boolean
+}
+
+export const CARD_FINISHES: { value: CardFinish; label: string }[] = [
+  { value: 'nonfoil', label: 'Non-foil' },
+  { value: 'foil', label: 'Foil' },
+  { value: 'etched', label: 'Etched' }
+]
+
+export const CARD_CONDITIONS: { value: CardCondition; label: string }[] = [
+  { value: 'NM', label: 'Near Mint' },
+  { value: 'LP', label: 'Lightly Played' },
+  { value: 'MP', label: 'Moderately Played' },
+  { value: 'HP', label: 'Heavily Played' },
+  { value: 'DMG', label: 'Damaged' }
+]
+
+export const CARD_LANGUAGES: { value: string; label: string }[] = [
+  { value: 'en', label: 'English' },
+  { value: 'es', label: 'Spanish' },
+  { value: 'fr', label: 'French' },
+  { value: 'de', label: 'German' },
+  { value: 'it', label: 'Italian' },
+  { value: 'pt', label: 'Portuguese' },
+  { value: 'ja', label: 'Japanese' },
+  { value: 'ko', label: 'Korean' },
+  { value: 'ru', label: 'Russian' },
+  { value: 'zhs', label: 'Simplified Chinese' },
+  { value: 'zht', label: 'Traditional Chinese' },
+  { value: 'ph', label: 'Phyrexian' }
+]
+
+export const DEFAULT_COPY: OwnedCopy = { finish: 'nonfoil', condition: 'NM', language: 'en' }
+
+// A new copy that satisfies the target (near mint meets any minimum condition)
+export function createCopy(target?: CopyTarget): OwnedCopy {
+  return {
+    finish: target?.finish ?? DEFAULT_COPY.finish,
+    condition: DEFAULT_COPY.condition,
+    language: target?.language ?? DEFAULT_COPY.language
+  }
+}
+
+export function isDefaultCopy(copy: OwnedCopy): boolean {
+  return copy.finish === DEFAULT_COPY.finish &&
+    copy.condition === DEFAULT_COPY.condition &&
+    copy.language === DEFAULT_COPY.language
+}
+
+function conditionRank(condition: CardCondition): number {
+  return CARD_CONDITIONS.findIndex(option => option.value === condition)
+}
+
+export function copyMatchesTarget(copy: OwnedCopy, target?: CopyTarget): boolean {
+  if (!target) return true
+  if (target.finish && copy.finish !== target.finish) return false
+  if (target.minCondition && conditionRank(copy.condition) > conditionRank(target.minCondition)) return false
+  if (target.language && copy.language !== target.language) return false
+  return true
+}
+
+// e.g. "Foil, Japanese, LP or better"
+export function describeCopyTarget(target: CopyTarget): string {
+  const parts: string[] = []
+  if (target.finish) parts.push(CARD_FINISHES.find(option => option.value === target.finish)!.label)
+  if (target.language) parts.push(CARD_LANGUAGES.find(option => option.value === target.language)?.label ?? target.language)
+  if (target.minCondition) parts.push(`${target.minCondition} or better`)
+  return parts.join(', ')
+}
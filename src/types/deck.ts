@@ -4,7 +4,7 @@ export interface DeckCard {
   name: string                  // Card name
   quantity: number              // Number needed
   category: string              // Commander, Creature, etc.
-  linkedCardKey?: string        // "segmentId:cardIndex" if manually linked to a collection card
+  linkedCardKey?: string        // Segment entry ID if manually linked to a collection card
   linkedScryfallId?: string     // Scryfall ID if linked to a specific printing not in collection
 }
 
@@ -4,3 +4,8 @@ export * from './segment'
 export * from './plan'
 export * from './placement'
 export * from './deck'
+export * from './pendingAction'
+export * from './collection'
+export * from './acquisition'
+export * from './inventory'
+export * from './valueSnapshot'
@@ -0,0 +1,12 @@
+import type { CardCondition, CardFinish } from './collection'
+
+// Owned copies of one printing that aren't placed in any set (the unsorted pile)
+export interface InventoryItem {
+  id: string
+  cardId: string  // Scryfall card ID
+  quantity: number
+  finish: CardFinish
+  condition: CardCondition
+  language: string
+  addedAt: number
+}
@@ -0,0 +1,21 @@
+// Work that needs the network, saved while offline and run once a connection is back
+interface PendingActionBase {
+  id: string
+  label: string                 // Shown in the offline queue
+  createdAt: number
+  error?: string                // Why the last attempt failed - failed actions aren't retried automatically
+}
+
+export interface ImportArchidektDeckAction extends PendingActionBase {
+  type: 'import-archidekt-deck'
+  deckId: string
+  url?: string
+}
+
+export interface DownloadSetCardsAction extends PendingActionBase {
+  type: 'download-set-cards'
+  setCode: string
+  segmentId?: string            // Segment created without cards while offline, filled once the set is downloaded
+}
+
+export type PendingAction = ImportArchidektDeckAction | DownloadSetCardsAction
@@ -3,7 +3,7 @@ import type { ScryfallCard } from './scryfall'
 export interface CardPlacement {
   card: ScryfallCard
   segmentId: string
-  cardIndexInSegment: number  // Index of this card in the segment's cardIds array
+  entryId: string  // Stable ID of this card's entry in the segment
   binderId: string
   binderIndex: number
   pageNumber: number
@@ -12,5 +12,5 @@ export interface CardPlacement {
 
 // Generate a unique key for a placement (for ownership tracking)
 export function getPlacementOwnershipKey(placement: CardPlacement): string {
-  return `${placement.segmentId}:${placement.cardIndexInSegment}`
+  return placement.entryId
 }
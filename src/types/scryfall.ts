@@ -7,12 +7,25 @@ export interface ScryfallSet {
   icon_svg_uri: string
 }
 
+// Currencies Scryfall has market prices for
+export type PriceCurrency = 'USD' | 'EUR'
+
+// Market prices from Scryfall, refreshed along with the rest of the card data
+export interface CardPrices {
+  usd?: number
+  usd_foil?: number
+  eur?: number
+  eur_foil?: number
+  updatedAt: number
+}
+
 export interface ScryfallCard {
   id: string
   name: string
   collector_number: string
   set: string
   set_name: string
+  mtgo_id?: number
   rarity: string
   type_line: string
   oracle_text?: string
@@ -43,4 +56,5 @@ export interface ScryfallCard {
       large: string
     }
   }>
+  prices?: CardPrices
 }
@@ -1,9 +1,13 @@
+import type { CopyTarget } from './collection'
+
 export interface Segment {
   id: string
   name: string
   scryfallSetCode: string
   cardIds: string[]
+  entryIds: string[]  // Stable ID per entry, parallel to cardIds - keys ownership, skips, spacers and deck links
   offset: number
   targetBinderId?: string
-  spacersBefore: Record<number, number>  // cardIndex -> number of blank slots before that card
+  spacersBefore: Record<string, number>  // entryId -> number of blank slots before that entry
+  copyTarget?: CopyTarget  // Only copies matching this count towards completion
 }
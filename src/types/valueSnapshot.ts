@@ -0,0 +1,17 @@
+import type { CardPrices, PriceCurrency } from './scryfall'
+
+// Owned value at the time of a snapshot
+export interface SnapshotValues {
+  total: number                   // Whole collection, unsorted cards included
+  plans: Record<string, number>   // Per plan ID
+}
+
+// Prices and collection value recorded on one day, for value-over-time charts
+export interface ValueSnapshot {
+  id: string
+  date: string    // YYYY-MM-DD
+  takenAt: number
+  prices: Record<string, Omit<CardPrices, 'updatedAt'>>  // Scryfall card ID -> prices, for owned cards
+  values: Record<PriceCurrency, SnapshotValues>
+  stalePrices?: boolean  // Some prices couldn't be updated first (e.g. taken offline)
+}
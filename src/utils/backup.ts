@@ -0,0 +1,298 @@
+import { getAllBinderImages, putBinderImages, type BinderImageData } from '@/utils/binderImages'
+import { downloadFile } from '@/utils/download'
+import { PRICE_CURRENCIES, priceCurrency, setPriceCurrency } from '@/utils/prices'
+import { getCacheMaxAgeDays, setCacheMaxAgeDays } from '@/api/scryfall'
+import { loadStores, useAcquisitionsStore, useValueSnapshotsStore } from '@/stores'
+import type { PriceCurrency } from '@/types'
+import { loadAppData, replaceAppData, type AppData } from '@/repositories'
+import { CURRENT_SCHEMA_VERSION, migrateData, type StoredData } from '@/migrations'
+
+export const BACKUP_FORMAT = 'spellbinder-backup'
+
+export interface BackupImage {
+  binderId: string
+  width: number
+  height: number
+  uploadedAt: number
+  dataUrl: string  // Image blob encoded as a data: URL
+}
+
+// Preferences kept in localStorage rather than the database
+export interface BackupSettings {
+  priceCurrency?: PriceCurrency
+  cacheMaxAgeDays?: number
+  ledgerCurrency?: string
+  dailySnapshots?: boolean
+}
+
+export interface SpellbinderBackup {
+  format: typeof BACKUP_FORMAT
+  schemaVersion: number
+  exportedAt: string
+  data: AppData
+  images: BackupImage[]
+  settings?: BackupSettings  // Missing from backups made before settings were included
+}
+
+export type RestoreMode = 'replace' | 'merge'
+
+export interface BackupSummary {
+  exportedAt: string
+  schemaVersion: number
+  binders: number
+  segments: number
+  plans: number
+  owned: number
+  skipped: number
+  decks: number
+  acquisitions: number
+  inventory: number
+  valueSnapshots: number
+  images: number
+}
+
+function blobToDataUrl(blob: Blob): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader()
+    reader.onload = () => resolve(reader.result as string)
+    reader.onerror = () => reject(new Error('Failed to read image data'))
+    reader.readAsDataURL(blob)
+  })
+}
+
+async function dataUrlToBlob(dataUrl: string): Promise<Blob> {
+  const response = await fetch(dataUrl)
+  return response.blob()
+}
+
+/**
+ * Collect all Spellbinder data (including cover images) into a backup object
+ */
+export async function createBackup(): Promise<SpellbinderBackup> {
+  const storedImages = await getAllBinderImages()
+  const images: BackupImage[] = []
+  for (const image of storedImages) {
+    images.push({
+      binderId: image.binderId,
+      width: image.width,
+      height: image.height,
+      uploadedAt: image.uploadedAt,
+      dataUrl: await blobToDataUrl(image.imageBlob)
+    })
+  }
+
+  return {
+    format: BACKUP_FORMAT,
+    schemaVersion: CURRENT_SCHEMA_VERSION,
+    exportedAt: new Date().toISOString(),
+    data: await loadAppData(),
+    images,
+    settings: {
+      priceCurrency: priceCurrency.value,
+      cacheMaxAgeDays: getCacheMaxAgeDays(),
+      ledgerCurrency: useAcquisitionsStore().lastCurrency,
+      dailySnapshots: useValueSnapshotsStore().dailyEnabled
+    }
+  }
+}
+
+/**
+ * Create a backup and trigger a download of it as a JSON file
+ */
+export async function downloadBackup(): Promise<void> {
+  const backup = await createBackup()
+  const date = backup.exportedAt.slice(0, 10)
+  downloadFile(JSON.stringify(backup), `spellbinder-backup-${date}.json`, 'application/json')
+}
+
+function assertArrayOfIds(value: unknown, name: string): void {
+  if (!Array.isArray(value)) {
+    throw new Error(`Invalid backup: "${name}" is not a list`)
+  }
+  for (const item of value) {
+    if (!item || typeof item !== 'object' || typeof (item as { id?: unknown }).id !== 'string') {
+      throw new Error(`Invalid backup: "${name}" contains an entry without an ID`)
+    }
+  }
+}
+
+function assertArrayOfStrings(value: unknown, name: string): void {
+  if (!Array.isArray(value) || value.some(item => typeof item !== 'string')) {
+    throw new Error(`Invalid backup: "${name}" is not a list of keys`)
+  }
+}
+
+// Backups from before copy counts were tracked have no quantities
+function assertQuantities(value: unknown): void {
+  if (value === undefined) return
+  if (!value || typeof value !== 'object' || Array.isArray(value)) {
+    throw new Error('Invalid backup: "quantities" is not a map of entries')
+  }
+  for (const quantity of Object.values(value)) {
+    if (!quantity || typeof quantity.owned !== 'number' || typeof quantity.wanted !== 'number' ||
+      (quantity.copies !== undefined && !Array.isArray(quantity.copies))) {
+      throw new Error('Invalid backup: "quantities" contains a malformed entry')
+    }
+  }
+}
+
+/**
+ * Parse and validate the contents of a backup file
+ */
+export function parseBackup(text: string): SpellbinderBackup {
+  let parsed: unknown
+  try {
+    parsed = JSON.parse(text)
+  } catch {
+    throw new Error('Invalid backup: file is not valid JSON')
+  }
+
+  const backup = parsed as Partial<SpellbinderBackup>
+  if (!backup || typeof backup !== 'object' || backup.format !== BACKUP_FORMAT) {
+    throw new Error('Invalid backup: this is not a Spellbinder backup file')
+  }
+  if (typeof backup.schemaVersion !== 'number') {
+    throw new Error('Invalid backup: missing schema version')
+  }
+  if (backup.schemaVersion > CURRENT_SCHEMA_VERSION) {
+    throw new Error(`This backup was made by a newer version of Spellbinder (schema ${backup.schemaVersion}). Please update the app first.`)
+  }
+
+  const data = backup.data
+  if (!data || typeof data !== 'object') {
+    throw new Error('Invalid backup: missing data')
+  }
+  assertArrayOfIds(data.binders, 'binders')
+  assertArrayOfIds(data.segments, 'segments')
+  assertArrayOfIds(data.plans, 'plans')
+  assertArrayOfIds(data.decks, 'decks')
+  // Backups from before the acquisition ledger have none
+  if (data.acquisitions !== undefined) assertArrayOfIds(data.acquisitions, 'acquisitions')
+  if (data.inventory !== undefined) assertArrayOfIds(data.inventory, 'inventory')
+  if (data.valueSnapshots !== undefined) assertArrayOfIds(data.valueSnapshots, 'valueSnapshots')
+  assertArrayOfStrings(data.collection, 'collection')
+  assertArrayOfStrings(data.skipped, 'skipped')
+  assertQuantities(data.quantities)
+
+  if (!Array.isArray(backup.images)) {
+    throw new Error('Invalid backup: "images" is not a list')
+  }
+  for (const image of backup.images) {
+    if (!image || typeof image.binderId !== 'string' || typeof image.dataUrl !== 'string') {
+      throw new Error('Invalid backup: contains a malformed cover image')
+    }
+  }
+
+  if (backup.settings !== undefined && (!backup.settings || typeof backup.settings !== 'object')) {
+    throw new Error('Invalid backup: "settings" is not a map of settings')
+  }
+
+  return backup as SpellbinderBackup
+}
+
+// Settings with an unexpected value are skipped rather than failing the restore
+function applySettings(settings: BackupSettings): void {
+  const currency = PRICE_CURRENCIES.find(option => option === settings.priceCurrency)
+  if (currency) setPriceCurrency(currency)
+  if (typeof settings.cacheMaxAgeDays === 'number' && Number.isInteger(settings.cacheMaxAgeDays) && settings.cacheMaxAgeDays >= 0) {
+    setCacheMaxAgeDays(settings.cacheMaxAgeDays)
+  }
+  if (typeof settings.ledgerCurrency === 'string' && settings.ledgerCurrency) {
+    useAcquisitionsStore().setLastCurrency(settings.ledgerCurrency)
+  }
+  if (typeof settings.dailySnapshots === 'boolean') {
+    useValueSnapshotsStore().setDailyEnabled(settings.dailySnapshots)
+  }
+}
+
+export function summarizeBackup(backup: SpellbinderBackup): BackupSummary {
+  return {
+    exportedAt: backup.exportedAt,
+    schemaVersion: backup.schemaVersion,
+    binders: backup.data.binders.length,
+    segments: backup.data.segments.length,
+    plans: backup.data.plans.length,
+    owned: backup.data.collection.length,
+    skipped: backup.data.skipped.length,
+    decks: backup.data.decks.length,
+    acquisitions: backup.data.acquisitions?.length ?? 0,
+    inventory: backup.data.inventory?.length ?? 0,
+    valueSnapshots: backup.data.valueSnapshots?.length ?? 0,
+    images: backup.images.length
+  }
+}
+
+// Merge two lists by ID - items already present locally win
+function mergeById<T extends { id: string }>(local: T[], incoming: T[]): T[] {
+  const localIds = new Set(local.map(item => item.id))
+  return [...local, ...incoming.filter(item => !localIds.has(item.id))]
+}
+
+function mergeKeys(local: string[], incoming: string[]): string[] {
+  return [...new Set([...local, ...incoming])]
+}
+
+// Take copy counts from the backup only for entries with no local ownership state
+function mergeQuantities(local: AppData, incoming: AppData): AppData['quantities'] {
+  const localKeys = new Set([...local.collection, ...Object.keys(local.quantities)])
+  const merged = { ...local.quantities }
+  for (const [entryId, quantity] of Object.entries(incoming.quantities)) {
+    if (!localKeys.has(entryId)) merged[entryId] = quantity
+  }
+  return merged
+}
+
+/**
+ * Restore a backup.
+ * - 'replace' discards all current data and uses the backup as-is, settings included
+ * - 'merge' adds binders, segments, plans, decks, ledger events, unsorted cards and value
+ *   snapshots that don't exist yet (matched by ID),
+ *   keeps local versions of anything present in both, and unions owned/skipped keys
+ *   (copy counts already set locally are kept); local settings are kept
+ * The data is written before cover images, so a failed write leaves the current images in place.
+ * Backups from an older schema version are migrated before being merged or written.
+ * All stores are reloaded afterwards.
+ */
+export async function restoreBackup(backup: SpellbinderBackup, mode: RestoreMode): Promise<void> {
+  const data = structuredClone(backup.data)
+  const migrationReport = migrateData(data as unknown as StoredData, backup.schemaVersion)
+  if (migrationReport.failure) {
+    throw new Error(`Upgrading the backup's data failed at "${migrationReport.failure.description}": ${migrationReport.failure.message}`)
+  }
+
+  const images: BinderImageData[] = []
+  for (const image of backup.images) {
+    images.push({
+      binderId: image.binderId,
+      width: image.width,
+      height: image.height,
+      uploadedAt: image.uploadedAt,
+      imageBlob: await dataUrlToBlob(image.dataUrl)
+    })
+  }
+
+  if (mode === 'replace') {
+    await replaceAppData(data)
+    await putBinderImages(images, true)
+    if (backup.settings) applySettings(backup.settings)
+  } else {
+    const local = await loadAppData()
+    await replaceAppData({
+      binders: mergeById(local.binders, data.binders),
+      segments: mergeById(local.segments, data.segments),
+      plans: mergeById(local.plans, data.plans),
+      collection: mergeKeys(local.collection, data.collection),
+      skipped: mergeKeys(local.skipped, data.skipped),
+      quantities: mergeQuantities(local, data),
+      decks: mergeById(local.decks, data.decks),
+      acquisitions: mergeById(local.acquisitions, data.acquisitions),
+      inventory: mergeById(local.inventory, data.inventory),
+      valueSnapshots: mergeById(local.valueSnapshots, data.valueSnapshots)
+    })
+    // Only add images for binders that don't already have one
+    const existingImageIds = new Set((await getAllBinderImages()).map(image => image.binderId))
+    await putBinderImages(images.filter(image => !existingImageIds.has(image.binderId)))
+  }
+
+  await loadStores()
+}
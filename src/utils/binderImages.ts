@@ -1,7 +1,6 @@
-const DB_NAME = 'spellbinder-cache'
-const DB_VERSION = 2 // Increment version to add new store
+import { openDatabase } from '@/utils/database'
 
-interface BinderImageData {
+export interface BinderImageData {
   binderId: string
   imageBlob: Blob
   width: number
@@ -26,36 +25,6 @@ export function getTargetDimensions(slotsPerPage: number): { width: number; heig
   }
 }
 
-// Open IndexedDB with version upgrade to add binderImages store
-function openDatabase(): Promise<IDBDatabase> {
-  return new Promise((resolve, reject) => {
-    const request = indexedDB.open(DB_NAME, DB_VERSION)
-
-    request.onerror = () => reject(request.error)
-    request.onsuccess = () => resolve(request.result)
-
-    request.onupgradeneeded = (event) => {
-      const db = (event.target as IDBOpenDBRequest).result
-
-      // Create existing stores if they don't exist (for migration from v1)
-      if (!db.objectStoreNames.contains('sets')) {
-        db.createObjectStore('sets', { keyPath: 'code' })
-      }
-      if (!db.objectStoreNames.contains('cards')) {
-        db.createObjectStore('cards', { keyPath: 'id' })
-      }
-      if (!db.objectStoreNames.contains('setCards')) {
-        db.createObjectStore('setCards', { keyPath: 'setCode' })
-      }
-
-      // Create new binderImages store
-      if (!db.objectStoreNames.contains('binderImages')) {
-        db.createObjectStore('binderImages', { keyPath: 'binderId' })
-      }
-    }
-  })
-}
-
 // Resize and compress image to target dimensions
 export async function processBinderImage(
   file: File,
@@ -190,3 +159,67 @@ export async function deleteBinderImage(binderId: string): Promise<void> {
     transaction.onerror = () => reject(transaction.error)
   })
 }
+
+// Get all stored binder images (used for backups)
+export async function getAllBinderImages(): Promise<BinderImageData[]> {
+  const db = await openDatabase()
+
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction('binderImages', 'readonly')
+    const store = transaction.objectStore('binderImages')
+    const request = store.getAll()
+
+    request.onerror = () => reject(request.error)
+    request.onsuccess = () => resolve(request.result as BinderImageData[])
+  })
+}
+
+// Write binder images in a single transaction, optionally clearing existing ones first
+export async function putBinderImages(images: BinderImageData[], clearExisting: boolean = false): Promise<void> {
+  const db = await openDatabase()
+
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction('binderImages', 'readwrite')
+    const store = transaction.objectStore('binderImages')
+
+    if (clearExisting) {
+      store.clear()
+    }
+    for (const image of images) {
+      store.put(image)
+    }
+
+    transaction.oncomplete = () => resolve()
+    transaction.onerror = () => reject(transaction.error)
+  })
+}
+
+// List the binder IDs that have a stored cover image
+export async function getBinderImageIds(): Promise<string[]> {
+  const db = await openDatabase()
+
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction('binderImages', 'readonly')
+    const store = transaction.objectStore('binderImages')
+    const request = store.getAllKeys()
+
+    request.onerror = () => reject(request.error)
+    request.onsuccess = () => resolve(request.result as string[])
+  })
+}
+
+// Delete several binder images in a single transaction
+export async function deleteBinderImages(binderIds: string[]): Promise<void> {
+  const db = await openDatabase()
+
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction('binderImages', 'readwrite')
+    const store = transaction.objectStore('binderImages')
+    for (const binderId of binderIds) {
+      store.delete(binderId)
+    }
+
+    transaction.oncomplete = () => resolve()
+    transaction.onerror = () => reject(transaction.error)
+  })
+}
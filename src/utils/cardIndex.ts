@@ -0,0 +1,20 @@
+// Keys cached cards are indexed by, so looking up and searching cards offline
+// doesn't have to read every card in the cache
+export interface CardIndexKeys {
+  printingKey: string     // "set|collector number", lowercase
+  names: string[]         // Full name and each face name, lowercase
+  nameSuffixes: string[]  // The name from the start of each word on, for searching by text
+}
+
+export function getCardIndexKeys(card: { name: string; set: string; collector_number?: string }): CardIndexKeys {
+  const name = card.name.toLowerCase()
+  const nameSuffixes = new Set([name])
+  for (const match of name.matchAll(/[\s-]+(?=\S)/g)) {
+    nameSuffixes.add(name.slice(match.index + match[0].length))
+  }
+  return {
+    printingKey: `${card.set}|${(card.collector_number ?? '').toLowerCase()}`,
+    names: [...new Set([name, ...name.split(' // ')])],
+    nameSuffixes: [...nameSuffixes]
+  }
+}
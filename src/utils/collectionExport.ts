@@ -0,0 +1,167 @@
+import { CARD_CONDITIONS, CARD_LANGUAGES, DEFAULT_COPY, type CardCondition, type OwnedCopy, type ScryfallCard, type Segment } from '@/types'
+import { useCollectionStore, useInventoryStore } from '@/stores'
+import { getCachedCards } from '@/api/scryfall'
+import { toCsv } from './csv'
+
+export type ExportSelection = 'owned' | 'missing' | 'skipped'
+
+export type ExportFormat = 'moxfield' | 'deckbox' | 'manabox' | 'tcgplayer' | 'cardmarket' | 'cardkingdom' | 'mtgprint'
+
+export const EXPORT_SELECTIONS: { value: ExportSelection; label: string }[] = [
+  { value: 'owned', label: 'Owned cards' },
+  { value: 'missing', label: 'Missing cards' },
+  { value: 'skipped', label: 'Skipped cards' }
+]
+
+export const EXPORT_FORMATS: { value: ExportFormat; label: string; extension: 'csv' | 'txt' }[] = [
+  { value: 'moxfield', label: 'Moxfield (CSV)', extension: 'csv' },
+  { value: 'deckbox', label: 'Deckbox (CSV)', extension: 'csv' },
+  { value: 'manabox', label: 'ManaBox (CSV)', extension: 'csv' },
+  { value: 'cardkingdom', label: 'Card Kingdom (CSV)', extension: 'csv' },
+  { value: 'tcgplayer', label: 'TCGplayer Mass Entry (text)', extension: 'txt' },
+  { value: 'cardmarket', label: 'Cardmarket wants list (text)', extension: 'txt' },
+  { value: 'mtgprint', label: 'MTGPRINT (text)', extension: 'txt' }
+]
+
+// Copies of one printing with the same finish, condition and language
+export interface ExportLine {
+  card: ScryfallCard
+  quantity: number
+  copy: OwnedCopy
+}
+
+// Cards to export from a set of segment entries (and, for owned cards, optionally the unsorted pile)
+export interface ExportSource {
+  segments: Segment[]
+  entryIds?: string[]          // Limit to these entries (e.g. one binder); all of the segments' entries otherwise
+  includeInventory?: boolean
+}
+
+/**
+ * Collect export lines: owned copies as they are, missing copies in the finish
+ * the segment collects, and skipped entries with their wanted count.
+ */
+export async function buildExportLines(source: ExportSource, selection: ExportSelection): Promise<ExportLine[]> {
+  const collectionStore = useCollectionStore()
+  const allowed = source.entryIds ? new Set(source.entryIds) : null
+  const wanted: { cardId: string; quantity: number; copy: OwnedCopy }[] = []
+
+  for (const segment of source.segments) {
+    segment.cardIds.forEach((cardId, index) => {
+      const entryId = segment.entryIds[index]!
+      if (allowed && !allowed.has(entryId)) return
+      const skipped = collectionStore.isSkipped(entryId)
+
+      if (selection === 'owned') {
+        for (const copy of collectionStore.getCopies(entryId)) {
+          wanted.push({ cardId, quantity: 1, copy })
+        }
+      } else if (selection === 'missing' && !skipped) {
+        const missing = collectionStore.getWantedCount(entryId) - collectionStore.getQualifyingCount(entryId)
+        if (missing > 0) {
+          const target = collectionStore.getCopyTarget(entryId)
+          const copy = { ...DEFAULT_COPY, finish: target?.finish ?? DEFAULT_COPY.finish, language: target?.language ?? DEFAULT_COPY.language }
+          wanted.push({ cardId, quantity: missing, copy })
+        }
+      } else if (selection === 'skipped' && skipped) {
+        wanted.push({ cardId, quantity: collectionStore.getWantedCount(entryId), copy: DEFAULT_COPY })
+      }
+    })
+  }
+
+  if (selection === 'owned' && source.includeInventory) {
+    for (const item of useInventoryStore().items) {
+      wanted.push({
+        cardId: item.cardId,
+        quantity: item.quantity,
+        copy: { finish: item.finish, condition: item.condition, language: item.language }
+      })
+    }
+  }
+
+  // Merge identical copies of the same printing into one line
+  const cards = await getCachedCards([...new Set(wanted.map(line => line.cardId))])
+  const lines = new Map<string, ExportLine>()
+  for (const { cardId, quantity, copy } of wanted) {
+    const card = cards.get(cardId)
+    if (!card) continue
+    const key = `${cardId}|${copy.finish}|${copy.condition}|${copy.language}`
+    const existing = lines.get(key)
+    if (existing) existing.quantity += quantity
+    else lines.set(key, { card, quantity, copy })
+  }
+
+  return [...lines.values()].sort((a, b) =>
+    a.card.set.localeCompare(b.card.set) ||
+    a.card.collector_number.localeCompare(b.card.collector_number, undefined, { numeric: true })
+  )
+}
+
+const DECKBOX_CONDITIONS: Record<CardCondition, string> = {
+  NM: 'Near Mint',
+  LP: 'Good (Lightly Played)',
+  MP: 'Played',
+  HP: 'Heavily Played',
+  DMG: 'Poor'
+}
+
+const MANABOX_CONDITIONS: Record<CardCondition, string> = {
+  NM: 'near_mint',
+  LP: 'light_played',
+  MP: 'played',
+  HP: 'played',
+  DMG: 'poor'
+}
+
+function conditionName(condition: CardCondition): string {
+  return CARD_CONDITIONS.find(option => option.value === condition)?.label ?? 'Near Mint'
+}
+
+function languageName(code: string): string {
+  return CARD_LANGUAGES.find(option => option.value === code)?.label ?? 'English'
+}
+
+function isFoil(copy: OwnedCopy): boolean {
+  return copy.finish !== 'nonfoil'
+}
+
+// Render export lines as file content in the given format
+export function formatExport(lines: ExportLine[], format: ExportFormat): string {
+  switch (format) {
+    case 'moxfield':
+      return toCsv([
+        ['Count', 'Tradelist Count', 'Name', 'Edition', 'Condition', 'Language', 'Foil', 'Collector Number'],
+        ...lines.map(({ card, quantity, copy }) => [
+          quantity, 0, card.name, card.set, conditionName(copy.condition), languageName(copy.language),
+          copy.finish === 'nonfoil' ? '' : copy.finish, card.collector_number
+        ])
+      ])
+    case 'deckbox':
+      return toCsv([
+        ['Count', 'Tradelist Count', 'Name', 'Edition', 'Card Number', 'Condition', 'Language', 'Foil'],
+        ...lines.map(({ card, quantity, copy }) => [
+          quantity, 0, card.name, card.set_name, card.collector_number, DECKBOX_CONDITIONS[copy.condition],
+          languageName(copy.language), isFoil(copy) ? 'foil' : ''
+        ])
+      ])
+    case 'manabox':
+      return toCsv([
+        ['Name', 'Set code', 'Set name', 'Collector number', 'Foil', 'Quantity', 'Scryfall ID', 'Condition', 'Language'],
+        ...lines.map(({ card, quantity, copy }) => [
+          card.name, card.set.toUpperCase(), card.set_name, card.collector_number,
+          copy.finish === 'nonfoil' ? 'normal' : copy.finish, quantity, card.id, MANABOX_CONDITIONS[copy.condition], copy.language
+        ])
+      ])
+    case 'cardkingdom':
+      return toCsv([
+        ['title', 'edition', 'foil', 'quantity'],
+        ...lines.map(({ card, quantity, copy }) => [card.name, card.set_name, isFoil(copy) ? 1 : 0, quantity])
+      ])
+    case 'tcgplayer':
+      return lines.map(({ card, quantity }) => `${quantity} ${card.name} [${card.set.toUpperCase()}]`).join('\n')
+    case 'cardmarket':
+      return lines.map(({ card, quantity }) => `${quantity} ${card.name} (${card.set_name})`).join('\n')
+    case 'mtgprint':
+      return lines.map(({ card, quantity }) => `${quantity} ${card.name} (${card.set.toUpperCase()}) ${card.collector_number}`).join('\n')
+  }
+}
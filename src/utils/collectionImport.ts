@@ -0,0 +1,461 @@
+import { copyMatchesTarget, DEFAULT_COPY, CARD_LANGUAGES, type CardCondition, type CardFinish, type OwnedCopy, type ScryfallCard, type Segment } from '@/types'
+import { useCollectionStore } from '@/stores'
+import { isArchidektCollectionCard, type ArchidektCollectionCard } from '@/api/archidekt'
+import { isMoxfieldCollectionCard, type MoxfieldCollectionCard } from '@/api/moxfield'
+import { parseCsv } from './csv'
+
+export type CollectionCsvFormat = 'moxfield' | 'manabox' | 'deckbox' | 'archidekt' | 'generic'
+
+export const CSV_FORMAT_LABELS: Record<CollectionCsvFormat, string> = {
+  moxfield: 'Moxfield',
+  manabox: 'ManaBox',
+  deckbox: 'Deckbox',
+  archidekt: 'Archidekt',
+  generic: 'Generic CSV'
+}
+
+// One card line from an import, normalized across source formats
+export interface ImportRow {
+  line: number        // Line in the source file the row starts on, or position in a hosted collection
+  source: string[]    // Original cells, kept for the unmatched report
+  quantity: number
+  name: string
+  scryfallId?: string
+  setCode?: string
+  setName?: string
+  collectorNumber?: string
+  copy: OwnedCopy
+}
+
+export interface ParsedCollection {
+  format: CollectionCsvFormat
+  header: string[]
+  rows: ImportRow[]
+  invalid: { line: number; source: string[]; reason: string }[]
+}
+
+type Field = 'quantity' | 'name' | 'scryfallId' | 'setCode' | 'setName' | 'collectorNumber' | 'finish' | 'condition' | 'language'
+
+// Header names (lowercase) each format uses for a field
+const COLUMNS: Record<CollectionCsvFormat, Partial<Record<Field, string[]>>> = {
+  moxfield: {
+    quantity: ['count'],
+    name: ['name'],
+    setCode: ['edition'],
+    collectorNumber: ['collector number'],
+    finish: ['foil'],
+    condition: ['condition'],
+    language: ['language']
+  },
+  manabox: {
+    quantity: ['quantity'],
+    name: ['name'],
+    scryfallId: ['scryfall id'],
+    setCode: ['set code'],
+    setName: ['set name'],
+    collectorNumber: ['collector number'],
+    finish: ['foil'],
+    condition: ['condition'],
+    language: ['language']
+  },
+  deckbox: {
+    quantity: ['count'],
+    name: ['name'],
+    setCode: ['edition code'],
+    setName: ['edition'],
+    collectorNumber: ['card number'],
+    finish: ['foil'],
+    condition: ['condition'],
+    language: ['language']
+  },
+  archidekt: {
+    quantity: ['quantity'],
+    name: ['name'],
+    scryfallId: ['scryfall id'],
+    setCode: ['edition code'],
+    setName: ['edition name'],
+    collectorNumber: ['collector number'],
+    finish: ['finish'],
+    condition: ['condition'],
+    language: ['language']
+  },
+  generic: {
+    quantity: ['quantity', 'count', 'qty'],
+    name: ['name', 'card name', 'card'],
+    scryfallId: ['scryfall id', 'scryfall_id', 'scryfallid'],
+    setCode: ['set code', 'set', 'edition code'],
+    setName: ['set name', 'edition name', 'edition'],
+    collectorNumber: ['collector number', 'card number', 'number', 'cn'],
+    finish: ['finish', 'foil'],
+    condition: ['condition'],
+    language: ['language', 'lang']
+  }
+}
+
+function detectFormat(headers: string[]): CollectionCsvFormat {
+  const has = (name: string) => headers.includes(name)
+  if (has('manabox id')) return 'manabox'
+  if (has('tradelist count') && has('card number')) return 'deckbox'
+  if (has('tradelist count')) return 'moxfield'
+  if (has('edition code') || has('edition name')) return 'archidekt'
+  return 'generic'
+}
+
+export function parseFinish(value: string): CardFinish {
+  const normalized = value.trim().toLowerCase()
+  if (normalized.includes('etched')) return 'etched'
+  if (normalized === 'foil' || normalized === 'true' || normalized === 'yes') return 'foil'
+  return 'nonfoil'
+}
+
+// Tools name conditions differently (e.g. "Near Mint", "near_mint", "NM", "Good (Lightly Played)")
+export function parseCondition(value: string): CardCondition {
+  const normalized = value.trim().toLowerCase().replace(/[_-]/g, ' ')
+  if (!normalized) return DEFAULT_COPY.condition
+  if (normalized.includes('heav') || normalized === 'hp') return 'HP'
+  if (normalized.includes('light') || normalized.includes('good') || normalized === 'lp' || normalized === 'sp') return 'LP'
+  if (normalized.includes('mint') || normalized.includes('excellent') || normalized === 'nm' || normalized === 'm') return 'NM'
+  if (normalized.includes('poor') || normalized.includes('damage') || normalized === 'dmg' || normalized === 'd') return 'DMG'
+  if (normalized.includes('played') || normalized === 'mp') return 'MP'
+  return DEFAULT_COPY.condition
+}
+
+// Accepts language codes ("ja") and names ("Japanese")
+export function parseLanguage(value: string): string {
+  const normalized = value.trim().toLowerCase()
+  if (!normalized) return DEFAULT_COPY.language
+  const match = CARD_LANGUAGES.find(option =>
+    option.value === normalized || option.label.toLowerCase() === normalized
+  )
+  return match?.value ?? DEFAULT_COPY.language
+}
+
+/**
+ * Parse a collection export from Moxfield, ManaBox, Deckbox or Archidekt (or a
+ * CSV with similar column names) into import rows.
+ */
+export function parseCollectionCsv(text: string): ParsedCollection {
+  const [header, ...lines] = parseCsv(text)
+  if (!header) {
+    throw new Error('The file is empty')
+  }
+
+  const headers = header.cells.map(cell => cell.trim().toLowerCase())
+  const format = detectFormat(headers)
+  const columns = COLUMNS[format]
+
+  function columnIndex(field: Field): number {
+    return headers.findIndex(name => columns[field]?.includes(name))
+  }
+  const indexes = Object.fromEntries(
+    (Object.keys(columns) as Field[]).map(field => [field, columnIndex(field)])
+  ) as Record<Field, number>
+
+  if (indexes.name === -1 && indexes.scryfallId === -1) {
+    throw new Error('No card name or Scryfall ID column found - is this a collection export?')
+  }
+
+  const rows: ImportRow[] = []
+  const invalid: ParsedCollection['invalid'] = []
+
+  lines.forEach(({ line, cells }) => {
+    const cell = (field: Field) => {
+      const columnIndex = indexes[field] ?? -1
+      return columnIndex === -1 ? '' : (cells[columnIndex] ?? '').trim()
+    }
+
+    const quantityText = cell('quantity')
+    const quantity = quantityText ? parseInt(quantityText, 10) : 1
+    if (Number.isNaN(quantity) || quantity < 0) {
+      invalid.push({ line, source: cells, reason: `Invalid quantity "${quantityText}"` })
+      return
+    }
+    if (quantity === 0) return
+
+    const name = cell('name')
+    const scryfallId = cell('scryfallId').toLowerCase()
+    if (!name && !scryfallId) {
+      invalid.push({ line, source: cells, reason: 'No card name or Scryfall ID' })
+      return
+    }
+
+    rows.push({
+      line,
+      source: cells,
+      quantity,
+      name,
+      scryfallId: scryfallId || undefined,
+      setCode: cell('setCode').toLowerCase() || undefined,
+      setName: cell('setName') || undefined,
+      collectorNumber: cell('collectorNumber') || undefined,
+      copy: {
+        finish: parseFinish(cell('finish')),
+        condition: parseCondition(cell('condition')),
+        language: parseLanguage(cell('language'))
+      }
+    })
+  })
+
+  return { format, header: header.cells, rows, invalid }
+}
+
+// Cells kept for the unmatched report of collections fetched from Archidekt or Moxfield
+const HOSTED_HEADER = ['Quantity', 'Name', 'Set Code', 'Set Name', 'Collector Number', 'Finish', 'Condition', 'Language', 'Scryfall ID']
+
+interface HostedCard {
+  quantity: number
+  name: string
+  scryfallId?: string
+  setCode?: string
+  setName?: string
+  collectorNumber?: string
+  finish: string
+  condition: string
+  language: string
+}
+
+function toParsedCollection(format: CollectionCsvFormat, cards: HostedCard[]): ParsedCollection {
+  const rows: ImportRow[] = []
+  const invalid: ParsedCollection['invalid'] = []
+
+  cards.forEach((card, index) => {
+    const line = index + 1
+    const source = [
+      String(card.quantity), card.name, card.setCode ?? '', card.setName ?? '', card.collectorNumber ?? '',
+      card.finish, card.condition, card.language, card.scryfallId ?? ''
+    ]
+    if (!Number.isInteger(card.quantity) || card.quantity < 0) {
+      invalid.push({ line, source, reason: `Invalid quantity "${card.quantity}"` })
+      return
+    }
+    if (card.quantity === 0) return
+    if (!card.name && !card.scryfallId) {
+      invalid.push({ line, source, reason: 'No card name or Scryfall ID' })
+      return
+    }
+
+    rows.push({
+      line,
+      source,
+      quantity: card.quantity,
+      name: card.name,
+      scryfallId: card.scryfallId?.toLowerCase(),
+      setCode: card.setCode?.toLowerCase(),
+      setName: card.setName,
+      collectorNumber: card.collectorNumber,
+      copy: {
+        finish: parseFinish(card.finish),
+        condition: parseCondition(card.condition),
+        language: parseLanguage(card.language)
+      }
+    })
+  })
+
+  return { format, header: HOSTED_HEADER, rows, invalid }
+}
+
+export function parseArchidektCollection(cards: ArchidektCollectionCard[]): ParsedCollection {
+  return toParsedCollection('archidekt', cards.map(item => ({
+    quantity: item.quantity,
+    name: item.card.oracleCard?.name ?? '',
+    scryfallId: item.card.uid ?? undefined,
+    setCode: item.card.edition?.editioncode ?? undefined,
+    setName: item.card.edition?.editionname ?? undefined,
+    collectorNumber: item.card.collectorNumber ?? undefined,
+    finish: item.modifier ?? '',
+    condition: item.condition ?? '',
+    language: item.language ?? ''
+  })))
+}
+
+export function parseMoxfieldCollection(cards: MoxfieldCollectionCard[]): ParsedCollection {
+  return toParsedCollection('moxfield', cards.map(item => ({
+    quantity: item.quantity,
+    name: item.card.name,
+    scryfallId: item.card.scryfall_id ?? undefined,
+    setCode: item.card.set ?? undefined,
+    collectorNumber: item.card.cn ?? undefined,
+    finish: item.finish ?? (item.isFoil ? 'foil' : ''),
+    condition: item.condition ?? '',
+    language: item.language ?? ''
+  })))
+}
+
+function isJsonObject(value: unknown): value is Record<string, unknown> {
+  return !!value && typeof value === 'object' && !Array.isArray(value)
+}
+
+// Archidekt pages list their cards in `results`, Moxfield pages in `data`
+function getPageItems(page: unknown): unknown[] {
+  if (!isJsonObject(page)) return []
+  const items = page.results ?? page.data
+  return Array.isArray(items) ? items : []
+}
+
+/**
+ * Parse a pasted collection: JSON as returned by the Archidekt or Moxfield
+ * collection APIs (a page object or just its list of cards), or CSV text.
+ */
+export function parseCollectionText(text: string): ParsedCollection {
+  const trimmed = text.trim()
+  if (!trimmed.startsWith('{') && !trimmed.startsWith('[')) {
+    return parseCollectionCsv(trimmed)
+  }
+
+  let data: unknown
+  try {
+    data = JSON.parse(trimmed)
+  } catch {
+    throw new Error('This looks like JSON but could not be read')
+  }
+  const items: unknown[] = Array.isArray(data) ? data : getPageItems(data)
+  const isArchidekt = items.some(item =>
+    isJsonObject(item) && isJsonObject(item.card) && ('oracleCard' in item.card || 'uid' in item.card)
+  )
+  // Items missing the fields the app reads are left out
+  const archidektCards = isArchidekt ? items.filter(isArchidektCollectionCard) : []
+  const moxfieldCards = isArchidekt ? [] : items.filter(isMoxfieldCollectionCard)
+  if (archidektCards.length === 0 && moxfieldCards.length === 0) {
+    throw new Error('No cards found - paste an Archidekt or Moxfield collection export')
+  }
+  return isArchidekt ? parseArchidektCollection(archidektCards) : parseMoxfieldCollection(moxfieldCards)
+}
+
+// A planned segment entry that imported copies can be placed in
+export interface ImportSlot {
+  entryId: string
+  cardId: string
+  segmentName: string
+  card: ScryfallCard | undefined
+}
+
+export type MatchMethod = 'scryfall-id' | 'set-number' | 'name'
+
+export type RowMatch =
+  | { status: 'matched'; row: ImportRow; method: MatchMethod; slots: ImportSlot[] }
+  | { status: 'ambiguous'; row: ImportRow; candidates: ImportSlot[][] }  // One group of slots per printing
+  | { status: 'unmatched'; row: ImportRow; reason: string }
+
+export function getImportSlots(segments: Segment[], cards: Map<string, ScryfallCard>): ImportSlot[] {
+  return segments.flatMap(segment =>
+    segment.cardIds.map((cardId, index) => ({
+      entryId: segment.entryIds[index]!,
+      cardId,
+      segmentName: segment.name,
+      card: cards.get(cardId)
+    }))
+  )
+}
+
+function normalizeName(name: string): string {
+  return name.trim().toLowerCase()
+}
+
+// Both "Fire // Ice" and "Fire" name a split or double-faced card
+function cardNames(card: ScryfallCard): string[] {
+  const full = normalizeName(card.name)
+  const front = full.split(' // ')[0]!
+  return front === full ? [full] : [full, front]
+}
+
+function groupByPrinting(slots: ImportSlot[]): ImportSlot[][] {
+  const groups = new Map<string, ImportSlot[]>()
+  for (const slot of slots) {
+    groups.set(slot.cardId, [...(groups.get(slot.cardId) ?? []), slot])
+  }
+  return [...groups.values()]
+}
+
+/**
+ * Match import rows to planned slots: by Scryfall ID, then set and collector
+ * number, then card name. A name match is only accepted without asking when it
+ * finds a single printing and the row didn't name a different one.
+ */
+export function matchImportRows(rows: ImportRow[], slots: ImportSlot[]): RowMatch[] {
+  const byCardId = new Map<string, ImportSlot[]>()
+  const byPrinting = new Map<string, ImportSlot[]>()  // "set|number" and "set name|number"
+  const byName = new Map<string, ImportSlot[]>()
+  function index(map: Map<string, ImportSlot[]>, key: string, slot: ImportSlot): void {
+    const list = map.get(key)
+    if (list) list.push(slot)
+    else map.set(key, [slot])
+  }
+  for (const slot of slots) {
+    index(byCardId, slot.cardId, slot)
+    if (!slot.card) continue
+    index(byPrinting, `${slot.card.set}|${slot.card.collector_number}`, slot)
+    index(byPrinting, `${normalizeName(slot.card.set_name)}|${slot.card.collector_number}`, slot)
+    for (const name of cardNames(slot.card)) {
+      index(byName, name, slot)
+    }
+  }
+
+  return rows.map((row): RowMatch => {
+    if (row.scryfallId) {
+      const matches = byCardId.get(row.scryfallId)
+      if (matches) return { status: 'matched', row, method: 'scryfall-id', slots: matches }
+    }
+
+    if (row.collectorNumber && (row.setCode || row.setName)) {
+      const set = row.setCode ?? normalizeName(row.setName!)
+      const printingMatches = byPrinting.get(`${set}|${row.collectorNumber}`)
+      if (printingMatches) {
+        return { status: 'matched', row, method: 'set-number', slots: printingMatches }
+      }
+    }
+
+    const nameMatches = row.name ? byName.get(normalizeName(row.name)) ?? [] : []
+
+    if (nameMatches.length === 0) {
+      const reason = row.name ? 'No planned slot for this card' : 'No planned slot for this Scryfall ID'
+      return { status: 'unmatched', row, reason }
+    }
+
+    // Narrow by set when the row names one but its collector number didn't match
+    const inSet = row.setCode ? nameMatches.filter(slot => slot.card?.set === row.setCode) : []
+    const candidates = groupByPrinting(inSet.length > 0 ? inSet : nameMatches)
+    const namedPrinting = !!(row.scryfallId || row.collectorNumber)
+    if (candidates.length === 1 && (!namedPrinting || inSet.length > 0)) {
+      return { status: 'matched', row, method: 'name', slots: candidates[0]! }
+    }
+    return { status: 'ambiguous', row, candidates }
+  })
+}
+
+/**
+ * Spread each row's copies over its slots: open slots whose target the copy
+ * meets are filled first, and any copies beyond what's wanted go to the first slot.
+ * With `replace`, copies already owned are ignored because they'll be replaced.
+ */
+export function planImport(assignments: { row: ImportRow; slots: ImportSlot[] }[], replace: boolean): Map<string, OwnedCopy[]> {
+  const collectionStore = useCollectionStore()
+  const imported = new Map<string, OwnedCopy[]>()
+
+  function openCount(entryId: string): number {
+    const target = collectionStore.getCopyTarget(entryId)
+    const existing = replace ? 0 : collectionStore.getQualifyingCount(entryId)
+    const added = (imported.get(entryId) ?? []).filter(copy => copyMatchesTarget(copy, target)).length
+    return collectionStore.getWantedCount(entryId) - existing - added
+  }
+
+  function add(entryId: string, copy: OwnedCopy, count: number): void {
+    const copies = imported.get(entryId) ?? []
+    for (let i = 0; i < count; i++) copies.push({ ...copy })
+    imported.set(entryId, copies)
+  }
+
+  for (const { row, slots } of assignments) {
+    let remaining = row.quantity
+    for (const slot of slots) {
+      if (remaining === 0) break
+      if (!copyMatchesTarget(row.copy, collectionStore.getCopyTarget(slot.entryId))) continue
+      const count = Math.min(remaining, Math.max(0, openCount(slot.entryId)))
+      add(slot.entryId, row.copy, count)
+      remaining -= count
+    }
+    if (remaining > 0 && slots[0]) {
+      add(slots[0].entryId, row.copy, remaining)
+    }
+  }
+  return imported
+}
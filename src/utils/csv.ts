@@ -0,0 +1,63 @@
+export interface CsvRow {
+  line: number      // Line in the source text the row starts on, from 1
+  cells: string[]
+}
+
+// Parse CSV text (RFC 4180: quoted fields may contain commas, newlines and doubled quotes)
+export function parseCsv(text: string): CsvRow[] {
+  const rows: CsvRow[] = []
+  let row: string[] = []
+  let field = ''
+  let inQuotes = false
+  let line = 1
+  let rowLine = 1
+
+  // Skip a byte order mark left by spreadsheet exports
+  const input = text.charCodeAt(0) === 0xfeff ? text.slice(1) : text
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i]!
+    if (inQuotes) {
+      if (char === '"' && input[i + 1] === '"') {
+        field += '"'
+        i++
+      } else if (char === '"') {
+        inQuotes = false
+      } else {
+        // A line break inside quotes is part of the field but still moves to the next line
+        if (char === '\n' || (char === '\r' && input[i + 1] !== '\n')) line++
+        field += char
+      }
+    } else if (char === '"') {
+      inQuotes = true
+    } else if (char === ',') {
+      row.push(field)
+      field = ''
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && input[i + 1] === '\n') i++
+      row.push(field)
+      rows.push({ line: rowLine, cells: row })
+      row = []
+      field = ''
+      line++
+      rowLine = line
+    } else {
+      field += char
+    }
+  }
+  if (field !== '' || row.length > 0) {
+    row.push(field)
+    rows.push({ line: rowLine, cells: row })
+  }
+
+  // Blank lines carry no data
+  return rows.filter(({ cells }) => cells.some(cell => cell.trim() !== ''))
+}
+
+function escapeField(value: string): string {
+  return /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value
+}
+
+export function toCsv(rows: (string | number)[][]): string {
+  return rows.map(row => row.map(value => escapeField(String(value))).join(',')).join('\r\n') + '\r\n'
+}
@@ -0,0 +1,245 @@
+import { useSegmentsStore, useCollectionStore, usePlansStore, useBindersStore, useDecksStore, useHistoryStore, useAcquisitionsStore } from '@/stores'
+import { getBinderImageIds, deleteBinderImages } from '@/utils/binderImages'
+
+export interface HealthIssue {
+  id: string
+  label: string
+}
+
+export interface HealthCheck {
+  id: string
+  title: string
+  description: string
+  repairLabel: string
+  issues: HealthIssue[]
+  repair: () => void | Promise<void>  // Store changes are made before any await
+}
+
+function shortId(id: string): string {
+  return id.slice(0, 8)
+}
+
+function checkOwnershipKeys(knownEntryIds: Set<string>): HealthCheck[] {
+  const collectionStore = useCollectionStore()
+
+  const trackedKeys = new Set([...collectionStore.ownedCopies.keys(), ...collectionStore.wantedCounts.keys()])
+  const invalidOwned = [...trackedKeys].filter(key => !knownEntryIds.has(key))
+  const invalidSkipped = [...collectionStore.skippedCardIds].filter(key => !knownEntryIds.has(key))
+
+  return [
+    {
+      id: 'invalid-owned',
+      title: 'Owned cards that no longer exist',
+      description: 'Ownership records pointing at segment entries that were deleted or never existed.',
+      repairLabel: 'Remove records',
+      issues: invalidOwned.map(key => ({ id: key, label: key })),
+      repair: () => collectionStore.discardEntries(invalidOwned)
+    },
+    {
+      id: 'invalid-skipped',
+      title: 'Skipped cards that no longer exist',
+      description: 'Skip records pointing at segment entries that were deleted or never existed.',
+      repairLabel: 'Remove records',
+      issues: invalidSkipped.map(key => ({ id: key, label: key })),
+      repair: () => collectionStore.discardEntries(invalidSkipped)
+    }
+  ]
+}
+
+function checkUnreferencedSegments(): HealthCheck {
+  const segmentsStore = useSegmentsStore()
+  const plansStore = usePlansStore()
+  const collectionStore = useCollectionStore()
+
+  const usedSegmentIds = new Set(plansStore.plans.flatMap(plan => plan.segmentIds))
+  const orphaned = segmentsStore.segments.filter(segment => !usedSegmentIds.has(segment.id))
+
+  return {
+    id: 'unreferenced-segments',
+    title: 'Segments not used by any set',
+    description: 'Segments that were removed from every set but still take up space, along with their ownership data.',
+    repairLabel: 'Delete segments',
+    issues: orphaned.map(segment => ({
+      id: segment.id,
+      label: `${segment.name} (${segment.scryfallSetCode.toUpperCase()}, ${segment.cardIds.length} cards)`
+    })),
+    repair: () => {
+      for (const segment of orphaned) {
+        collectionStore.discardEntries(segment.entryIds)
+        segmentsStore.removeSegment(segment.id)
+      }
+    }
+  }
+}
+
+function checkPlanBinders(binderIds: Set<string>): HealthCheck {
+  const plansStore = usePlansStore()
+
+  const broken = plansStore.plans.flatMap(plan =>
+    plan.binderIds
+      .filter(binderId => !binderIds.has(binderId))
+      .map(binderId => ({ plan, binderId }))
+  )
+
+  return {
+    id: 'plans-missing-binders',
+    title: 'Sets using deleted storage',
+    description: 'Sets that still list a binder or box that no longer exists.',
+    repairLabel: 'Remove from sets',
+    issues: broken.map(({ plan, binderId }) => ({
+      id: `${plan.id}:${binderId}`,
+      label: `${plan.name}: storage ${shortId(binderId)}`
+    })),
+    repair: () => {
+      for (const { plan, binderId } of broken) {
+        plansStore.removeBinderFromPlan(plan.id, binderId)
+      }
+    }
+  }
+}
+
+function checkSegmentTargets(binderIds: Set<string>): HealthCheck {
+  const segmentsStore = useSegmentsStore()
+
+  const broken = segmentsStore.segments.filter(
+    segment => segment.targetBinderId !== undefined && !binderIds.has(segment.targetBinderId)
+  )
+
+  return {
+    id: 'segments-missing-target',
+    title: 'Segments targeting deleted storage',
+    description: 'Segments pinned to a binder or box that no longer exists. They will be placed automatically once cleared.',
+    repairLabel: 'Clear target',
+    issues: broken.map(segment => ({
+      id: segment.id,
+      label: `${segment.name}: storage ${shortId(segment.targetBinderId!)}`
+    })),
+    repair: () => {
+      for (const segment of broken) {
+        segmentsStore.updateSegment(segment.id, { targetBinderId: undefined })
+      }
+    }
+  }
+}
+
+function checkDeckLinks(knownEntryIds: Set<string>): HealthCheck {
+  const decksStore = useDecksStore()
+
+  const broken = decksStore.decks.flatMap(deck =>
+    deck.cards
+      .filter(card => card.linkedCardKey !== undefined && !knownEntryIds.has(card.linkedCardKey))
+      .map(card => ({ deck, card }))
+  )
+
+  return {
+    id: 'broken-deck-links',
+    title: 'Deck cards linked to missing collection cards',
+    description: 'Deck cards manually linked to a collection card that has since been removed.',
+    repairLabel: 'Remove links',
+    issues: broken.map(({ deck, card }) => ({
+      id: `${deck.id}:${card.id}`,
+      label: `${deck.name}: ${card.name}`
+    })),
+    repair: () => {
+      const brokenDeckIds = new Set(broken.map(({ deck }) => deck.id))
+      for (const deckId of brokenDeckIds) {
+        const deck = decksStore.getDeck(deckId)
+        if (!deck) continue
+        decksStore.updateDeck(deckId, {
+          cards: deck.cards.map(card => {
+            if (card.linkedCardKey === undefined || knownEntryIds.has(card.linkedCardKey)) return card
+            const { linkedCardKey: _removed, ...rest } = card
+            return rest
+          })
+        })
+      }
+    }
+  }
+}
+
+function checkSpacers(): HealthCheck {
+  const segmentsStore = useSegmentsStore()
+
+  const broken = segmentsStore.segments.flatMap(segment => {
+    const entryIds = new Set(segment.entryIds)
+    return Object.keys(segment.spacersBefore)
+      .filter(entryId => !entryIds.has(entryId))
+      .map(entryId => ({ segment, entryId }))
+  })
+
+  return {
+    id: 'dangling-spacers',
+    title: 'Spacers past the end of a segment',
+    description: 'Blank slots recorded before cards that are no longer in the segment.',
+    repairLabel: 'Remove spacers',
+    issues: broken.map(({ segment, entryId }) => ({
+      id: `${segment.id}:${entryId}`,
+      label: `${segment.name}: ${segment.spacersBefore[entryId]} spacer(s) before entry ${shortId(entryId)}`
+    })),
+    repair: () => {
+      const brokenSegmentIds = new Set(broken.map(({ segment }) => segment.id))
+      for (const segmentId of brokenSegmentIds) {
+        const segment = segmentsStore.getSegment(segmentId)
+        if (!segment) continue
+        const entryIds = new Set(segment.entryIds)
+        const spacersBefore = Object.fromEntries(
+          Object.entries(segment.spacersBefore).filter(([entryId]) => entryIds.has(entryId))
+        )
+        segmentsStore.updateSegment(segmentId, { spacersBefore })
+      }
+    }
+  }
+}
+
+async function checkCoverImages(binderIds: Set<string>): Promise<HealthCheck> {
+  const orphanedIds = (await getBinderImageIds()).filter(binderId => !binderIds.has(binderId))
+
+  return {
+    id: 'orphaned-cover-images',
+    title: 'Cover images for deleted storage',
+    description: 'Cover images left in the local database after their binder or box was deleted.',
+    repairLabel: 'Delete images',
+    issues: orphanedIds.map(binderId => ({ id: binderId, label: `Image for storage ${shortId(binderId)}` })),
+    repair: () => deleteBinderImages(orphanedIds)
+  }
+}
+
+/**
+ * Run every data integrity check against the current store state.
+ * Each check carries a repair action for the issues it found.
+ */
+export async function runHealthChecks(): Promise<HealthCheck[]> {
+  const segmentsStore = useSegmentsStore()
+  const bindersStore = useBindersStore()
+
+  const knownEntryIds = new Set(segmentsStore.segments.flatMap(segment => segment.entryIds))
+  const binderIds = new Set(bindersStore.binders.map(binder => binder.id))
+
+  return [
+    ...checkOwnershipKeys(knownEntryIds),
+    checkUnreferencedSegments(),
+    checkPlanBinders(binderIds),
+    checkSegmentTargets(binderIds),
+    checkDeckLinks(knownEntryIds),
+    checkSpacers(),
+    await checkCoverImages(binderIds)
+  ]
+}
+
+// Run a check's repair as a single undo step; cleanup outside the stores (cover images) finishes after it.
+// Repairs only drop data that points nowhere, so one that changes the acquisitions ledger is undone.
+export async function repairCheck(check: HealthCheck): Promise<void> {
+  const historyStore = useHistoryStore()
+  const acquisitionsStore = useAcquisitionsStore()
+  const ledgerBefore = JSON.stringify(acquisitionsStore.events)
+
+  let cleanup: void | Promise<void> = undefined
+  historyStore.transact(`Repair: ${check.title}`, () => {
+    cleanup = check.repair()
+  })
+  if (JSON.stringify(acquisitionsStore.events) !== ledgerBefore) {
+    historyStore.undo()
+    throw new Error(`Repairing "${check.title}" would have changed the acquisitions ledger, so it was undone`)
+  }
+  await cleanup
+}
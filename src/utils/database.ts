@@ -0,0 +1,41 @@
+import { migrations, CURRENT_SCHEMA_VERSION } from '@/migrations/steps'
+
+const DB_NAME = 'spellbinder-cache'
+
+let databasePromise: Promise<IDBDatabase> | null = null
+
+// Open the shared IndexedDB database, applying any pending schema migrations.
+// The database version always equals the app schema version.
+export function openDatabase(): Promise<IDBDatabase> {
+  if (databasePromise) return databasePromise
+
+  databasePromise = new Promise<IDBDatabase>((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, CURRENT_SCHEMA_VERSION)
+
+    request.onerror = () => {
+      databasePromise = null
+      reject(request.error)
+    }
+    request.onsuccess = () => {
+      const db = request.result
+      // Let other tabs upgrade (or the cache be deleted) instead of blocking them
+      db.onversionchange = () => {
+        db.close()
+        databasePromise = null
+      }
+      resolve(db)
+    }
+
+    request.onupgradeneeded = (event) => {
+      const db = request.result
+      const transaction = request.transaction!
+      for (const migration of migrations) {
+        if (migration.version > event.oldVersion && migration.database) {
+          migration.database(db, transaction)
+        }
+      }
+    }
+  })
+
+  return databasePromise
+}
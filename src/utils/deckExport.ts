@@ -0,0 +1,132 @@
+import type { ScryfallCard } from '@/types'
+import { toCsv } from './csv'
+
+export type DeckExportFormat = 'arena' | 'mtgo' | 'moxfield' | 'csv'
+
+export const DECK_EXPORT_FORMATS: { value: DeckExportFormat; label: string; extension: string; mime: string }[] = [
+  { value: 'arena', label: 'MTG Arena (text)', extension: 'txt', mime: 'text/plain' },
+  { value: 'mtgo', label: 'MTGO (.dek)', extension: 'dek', mime: 'application/xml' },
+  { value: 'moxfield', label: 'Moxfield (text with set and number)', extension: 'txt', mime: 'text/plain' },
+  { value: 'csv', label: 'CSV', extension: 'csv', mime: 'text/csv' }
+]
+
+// A deck card as it will be exported, with the printing it resolves to
+export interface DeckExportCard {
+  name: string
+  quantity: number
+  category: string
+  card?: ScryfallCard   // The linked or imported printing, when its data is loaded
+}
+
+// Categories that are boards of their own rather than part of the main deck
+const SPECIAL_CATEGORIES = ['Commander', 'Companion', 'Sideboard', 'Maybeboard']
+
+// Group cards by category, main deck categories alphabetically, then the special boards
+function groupByCategory(cards: DeckExportCard[]): [string, DeckExportCard[]][] {
+  const groups = new Map<string, DeckExportCard[]>()
+  for (const card of cards) {
+    const category = card.category || 'Other'
+    if (!groups.has(category)) groups.set(category, [])
+    groups.get(category)!.push(card)
+  }
+  for (const group of groups.values()) {
+    group.sort((a, b) => a.name.localeCompare(b.name))
+  }
+
+  const main = [...groups.keys()].filter(key => !SPECIAL_CATEGORIES.includes(key)).sort()
+  const special = SPECIAL_CATEGORIES.filter(key => groups.has(key))
+  return [...main, ...special].map(key => [key, groups.get(key)!])
+}
+
+function printingLine(card: DeckExportCard): string {
+  return card.card
+    ? `${card.quantity} ${card.name} (${card.card.set.toUpperCase()}) ${card.card.collector_number}`
+    : `${card.quantity} ${card.name}`
+}
+
+function escapeXml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/"/g, '&quot;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+}
+
+// MTG Arena only knows Commander, Companion, Deck and Sideboard sections, and has no maybeboard
+function formatArena(deckName: string, cards: DeckExportCard[]): string {
+  const sections = new Map<string, DeckExportCard[]>([['Commander', []], ['Companion', []], ['Deck', []], ['Sideboard', []]])
+  for (const [category, group] of groupByCategory(cards)) {
+    if (category === 'Maybeboard') continue
+    const section = sections.has(category) ? category : 'Deck'
+    sections.get(section)!.push(...group)
+  }
+
+  const blocks = [`About\nName ${deckName}`]
+  for (const [section, group] of sections) {
+    if (group.length > 0) blocks.push([section, ...group.map(printingLine)].join('\n'))
+  }
+  return blocks.join('\n\n') + '\n'
+}
+
+// MTGO keeps the commander and sideboard together in the sideboard
+function formatMtgo(cards: DeckExportCard[]): string {
+  const lines = groupByCategory(cards)
+    .filter(([category]) => category !== 'Maybeboard')
+    .flatMap(([category, group]) => group.map(card => {
+      const catId = card.card?.mtgo_id !== undefined ? ` CatID="${card.card.mtgo_id}"` : ''
+      const sideboard = SPECIAL_CATEGORIES.includes(category)
+      return `  <Cards${catId} Quantity="${card.quantity}" Sideboard="${sideboard}" Name="${escapeXml(card.name)}" Annotation="0" />`
+    }))
+
+  return [
+    '<?xml version="1.0" encoding="utf-8"?>',
+    '<Deck xmlns:xsd="http://www.w3.org/2001/XMLSchema" xmlns:xsi="http://www.w3.org/2001/XMLSchema-instance">',
+    '  <NetDeckID>0</NetDeckID>',
+    '  <PreconstructedDeckID>0</PreconstructedDeckID>',
+    ...lines,
+    '</Deck>'
+  ].join('\r\n') + '\r\n'
+}
+
+// Main deck categories as comments, the special boards under the headers Moxfield reads
+function formatMoxfield(cards: DeckExportCard[]): string {
+  const blocks: string[] = []
+  const main: string[] = []
+  for (const [category, group] of groupByCategory(cards)) {
+    if (SPECIAL_CATEGORIES.includes(category)) {
+      blocks.push([`${category.toUpperCase()}:`, ...group.map(printingLine)].join('\n'))
+    } else {
+      main.push(`// ${category}`, ...group.map(printingLine))
+    }
+  }
+  return [main.join('\n'), ...blocks].filter(Boolean).join('\n\n') + '\n'
+}
+
+function formatCsv(cards: DeckExportCard[]): string {
+  return toCsv([
+    ['Quantity', 'Name', 'Category', 'Set', 'Set Name', 'Collector Number', 'Scryfall ID'],
+    ...groupByCategory(cards).flatMap(([category, group]) => group.map(card => [
+      card.quantity,
+      card.name,
+      category,
+      card.card?.set.toUpperCase() ?? '',
+      card.card?.set_name ?? '',
+      card.card?.collector_number ?? '',
+      card.card?.id ?? ''
+    ]))
+  ])
+}
+
+// Render a deck (or the part of it to buy) as file content in the given format
+export function formatDeckExport(deckName: string, cards: DeckExportCard[], format: DeckExportFormat): string {
+  switch (format) {
+    case 'arena':
+      return formatArena(deckName, cards)
+    case 'mtgo':
+      return formatMtgo(cards)
+    case 'moxfield':
+      return formatMoxfield(cards)
+    case 'csv':
+      return formatCsv(cards)
+  }
+}
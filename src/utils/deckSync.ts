@@ -0,0 +1,69 @@
+import type { DeckCard } from '@/types'
+
+type IncomingCard = Omit<DeckCard, 'id'>
+
+// A card present both before and after the sync, with what changed about it
+export interface ChangedDeckCard {
+  card: DeckCard
+  next: IncomingCard
+  quantityChanged: boolean
+  categoryChanged: boolean
+  printingChanged: boolean
+}
+
+export interface DeckDiff {
+  added: IncomingCard[]
+  removed: DeckCard[]
+  changed: ChangedDeckCard[]
+  // Every incoming card paired with the existing card it updates, in the incoming order
+  pairs: { card?: DeckCard; next: IncomingCard }[]
+}
+
+/**
+ * Compare a deck's cards with a fresh copy of the list. Cards are paired by
+ * Scryfall ID first, then by name, so a printing swapped on the other side is a
+ * change rather than a removal and an addition.
+ */
+export function diffDeckCards(current: DeckCard[], incoming: IncomingCard[]): DeckDiff {
+  const unpaired = [...current]
+  const take = (matches: (card: DeckCard) => boolean): DeckCard | undefined => {
+    const index = unpaired.findIndex(matches)
+    return index === -1 ? undefined : unpaired.splice(index, 1)[0]
+  }
+
+  const paired = new Map<IncomingCard, DeckCard | undefined>()
+  for (const next of incoming) {
+    paired.set(next, take(card => card.scryfallId === next.scryfallId && card.category === next.category)
+      ?? take(card => card.scryfallId === next.scryfallId))
+  }
+  for (const next of incoming) {
+    if (!paired.get(next)) {
+      paired.set(next, take(card => card.name.toLowerCase() === next.name.toLowerCase()))
+    }
+  }
+
+  const diff: DeckDiff = { added: [], removed: unpaired, changed: [], pairs: [] }
+  for (const next of incoming) {
+    const card = paired.get(next)
+    diff.pairs.push({ card, next })
+    if (!card) {
+      diff.added.push(next)
+      continue
+    }
+    const change: ChangedDeckCard = {
+      card,
+      next,
+      quantityChanged: card.quantity !== next.quantity,
+      categoryChanged: card.category !== next.category,
+      printingChanged: card.scryfallId !== next.scryfallId
+    }
+    if (change.quantityChanged || change.categoryChanged || change.printingChanged) {
+      diff.changed.push(change)
+    }
+  }
+  return diff
+}
+
+export function isDeckDiffEmpty(diff: DeckDiff): boolean {
+  return diff.added.length === 0 && diff.removed.length === 0 && diff.changed.length === 0
+}
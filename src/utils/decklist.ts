@@ -0,0 +1,158 @@
+import type { DeckCard, ScryfallCard } from '@/types'
+import { findCards } from '@/api/scryfall'
+
+// A card line from a text decklist
+export interface DecklistLine {
+  line: number          // 1-based line number in the pasted text
+  source: string        // The line as written
+  quantity: number
+  name: string
+  setCode?: string
+  collectorNumber?: string
+  category: string
+}
+
+export interface ParsedDecklist {
+  name?: string         // From an MTG Arena "About" section
+  lines: DecklistLine[]
+  invalid: { line: number; source: string; category: string }[]  // Lines that aren't cards
+}
+
+// Section headers used by MTG Arena, MTGO and Moxfield exports, with the category they map to
+const SECTION_CATEGORIES: Record<string, string> = {
+  deck: 'Main',
+  main: 'Main',
+  mainboard: 'Main',
+  maindeck: 'Main',
+  commander: 'Commander',
+  commanders: 'Commander',
+  companion: 'Companion',
+  sideboard: 'Sideboard',
+  maybeboard: 'Maybeboard',
+  considering: 'Maybeboard',
+  about: 'About'
+}
+
+// "4 Lightning Bolt", "4x Lightning Bolt (M10) 146 *F*", "SB: 2 Duress", "1x Sol Ring (C21) 263 [Ramp]"
+const CARD_LINE = /^(?:(SB):\s*)?(?:(\d+)x?\s+)?(.+?)(?:\s+\(([A-Za-z0-9]{2,6})\)(?:\s+([A-Za-z0-9★-]+))?)?(?:\s+\*[A-Z]+\*)*(?:\s+\[([^\]]*)\])?$/
+
+function parseSectionHeader(text: string): string | undefined {
+  const header = text.replace(/^\/\/\s*/, '').replace(/:$/, '').trim().toLowerCase()
+  return SECTION_CATEGORIES[header]
+}
+
+/**
+ * Parse a pasted decklist in plain text, MTG Arena, MTGO or Moxfield style.
+ * Section headers (Deck, Sideboard, Commander, ...) set the category of the lines below them;
+ * without headers, lines after the first blank line are the sideboard, as in MTGO lists.
+ */
+export function parseDecklist(text: string): ParsedDecklist {
+  const result: ParsedDecklist = { lines: [], invalid: [] }
+  let category = 'Main'
+  let hasHeaders = false
+  let sectionHasCards = false
+
+  text.split(/\r?\n/).forEach((raw, index) => {
+    const source = raw.trim()
+    const line = index + 1
+
+    if (!source) {
+      if (!hasHeaders && sectionHasCards && category === 'Main') {
+        category = 'Sideboard'
+        sectionHasCards = false
+      }
+      return
+    }
+
+    const section = parseSectionHeader(source)
+    if (section) {
+      category = section
+      hasHeaders = true
+      sectionHasCards = false
+      return
+    }
+
+    if (category === 'About') {
+      const name = source.match(/^Name\s+(.+)$/i)?.[1]
+      if (name) result.name = name.trim()
+      return
+    }
+
+    // Other comments
+    if (source.startsWith('//') || source.startsWith('#')) return
+
+    const match = source.match(CARD_LINE)
+    const name = match?.[3]?.trim()
+    if (!match || !name) {
+      result.invalid.push({ line, source, category })
+      return
+    }
+
+    const quantity = match[2] ? parseInt(match[2], 10) : 1
+    if (quantity <= 0) {
+      result.invalid.push({ line, source, category })
+      return
+    }
+
+    // Archidekt text exports put the categories in brackets, the first one being the main category
+    const bracketCategory = match[6]?.split(',')[0]?.trim()
+
+    result.lines.push({
+      line,
+      source,
+      quantity,
+      name,
+      setCode: match[4]?.toLowerCase(),
+      collectorNumber: match[5],
+      category: match[1] ? 'Sideboard' : bracketCategory || category
+    })
+    sectionHasCards = true
+  })
+
+  return result
+}
+
+export interface ResolvedDecklist {
+  cards: Omit<DeckCard, 'id'>[]
+  unresolved: DecklistLine[]
+}
+
+/**
+ * Resolve decklist lines to Scryfall cards: by set and collector number when given,
+ * otherwise (or when that printing isn't found) by name.
+ * Lines resolving to the same card in the same category are merged.
+ */
+export async function resolveDecklist(lines: DecklistLine[]): Promise<ResolvedDecklist> {
+  const byPrinting = await findCards(lines.map(line =>
+    line.setCode && line.collectorNumber
+      ? { set: line.setCode, collector_number: line.collectorNumber }
+      : { name: line.name }
+  ))
+
+  const needsName = lines.filter((line, index) => !byPrinting[index] && line.setCode && line.collectorNumber)
+  const byName = new Map<DecklistLine, ScryfallCard | undefined>()
+  if (needsName.length > 0) {
+    const found = await findCards(needsName.map(line => ({ name: line.name })))
+    needsName.forEach((line, index) => byName.set(line, found[index]))
+  }
+
+  const cards = new Map<string, Omit<DeckCard, 'id'>>()
+  const unresolved: DecklistLine[] = []
+
+  lines.forEach((line, index) => {
+    const card = byPrinting[index] ?? byName.get(line)
+    if (!card) {
+      unresolved.push(line)
+      return
+    }
+    const key = `${card.id}|${line.category}`
+    const existing = cards.get(key)
+    if (existing) {
+      existing.quantity += line.quantity
+    } else {
+      cards.set(key, { scryfallId: card.id, name: card.name, quantity: line.quantity, category: line.category })
+    }
+  })
+
+  return { cards: [...cards.values()], unresolved }
+}
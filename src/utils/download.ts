@@ -0,0 +1,11 @@
+// Save generated content as a file through the browser's download prompt
+export function downloadFile(content: string, filename: string, type: string): void {
+  const blob = new Blob([content], { type })
+  const url = URL.createObjectURL(blob)
+
+  const link = document.createElement('a')
+  link.href = url
+  link.download = filename
+  link.click()
+  URL.revokeObjectURL(url)
+}
@@ -0,0 +1,46 @@
+import type { AcquisitionEvent, AcquisitionKind } from '@/types'
+
+const FALLBACK_CURRENCY = 'USD'
+
+// Total price per currency for one kind of event - different currencies are never added together
+export function sumByCurrency(events: AcquisitionEvent[], kind: AcquisitionKind): Map<string, number> {
+  const totals = new Map<string, number>()
+  for (const event of events) {
+    if (event.kind !== kind || event.price === undefined) continue
+    const currency = event.currency ?? FALLBACK_CURRENCY
+    totals.set(currency, (totals.get(currency) ?? 0) + event.price)
+  }
+  return totals
+}
+
+export function formatMoney(amount: number, currency: string): string {
+  try {
+    return new Intl.NumberFormat(undefined, { style: 'currency', currency }).format(amount)
+  } catch {
+    // Unknown currency code
+    return `${amount.toFixed(2)} ${currency}`
+  }
+}
+
+// e.g. "$12.00 + €3.50", or a dash when nothing was paid
+export function formatTotals(totals: Map<string, number>): string {
+  if (totals.size === 0) return '—'
+  return [...totals].map(([currency, amount]) => formatMoney(amount, currency)).join(' + ')
+}
+
+// Events grouped by YYYY-MM, newest month first
+export function groupByMonth(events: AcquisitionEvent[]): [string, AcquisitionEvent[]][] {
+  const months = new Map<string, AcquisitionEvent[]>()
+  for (const event of events) {
+    const month = event.date.slice(0, 7)
+    const list = months.get(month) ?? []
+    list.push(event)
+    months.set(month, list)
+  }
+  return [...months].sort(([a], [b]) => b.localeCompare(a))
+}
+
+export function formatMonth(month: string): string {
+  const [year, monthIndex] = month.split('-').map(Number)
+  return new Date(year!, monthIndex! - 1, 1).toLocaleDateString(undefined, { year: 'numeric', month: 'long' })
+}
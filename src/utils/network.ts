@@ -0,0 +1,37 @@
+import { reactive } from 'vue'
+
+// Whether the browser currently has a network connection
+export const networkStatus = reactive({
+  online: navigator.onLine
+})
+
+window.addEventListener('online', () => {
+  networkStatus.online = true
+})
+window.addEventListener('offline', () => {
+  networkStatus.online = false
+})
+
+// A request that never reached the server, as opposed to one that failed there
+export class NetworkError extends Error {
+  constructor() {
+    super('Could not connect. Check your internet connection.')
+    this.name = 'NetworkError'
+  }
+}
+
+// fetch() rejects with a TypeError when a request never reaches the server.
+// Only that rejection becomes a NetworkError; aborts and other errors pass through.
+export async function fetchFromNetwork(input: RequestInfo | URL, init?: RequestInit): Promise<Response> {
+  try {
+    return await fetch(input, init)
+  } catch (error) {
+    if (error instanceof TypeError) throw new NetworkError()
+    throw error
+  }
+}
+
+// Whether an action failed for lack of a connection and is worth trying again later
+export function isNetworkError(error: unknown): boolean {
+  return error instanceof NetworkError || !networkStatus.online
+}
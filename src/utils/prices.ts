@@ -0,0 +1,46 @@
+import { ref } from 'vue'
+import type { CardFinish, CardPrices, PriceCurrency, ScryfallCard } from '@/types'
+import { formatMoney } from './ledger'
+
+const CURRENCY_STORAGE_KEY = 'spellbinder-price-currency'
+
+export const PRICE_CURRENCIES: PriceCurrency[] = ['USD', 'EUR']
+
+function loadPriceCurrency(): PriceCurrency {
+  const stored = localStorage.getItem(CURRENCY_STORAGE_KEY)
+  return PRICE_CURRENCIES.find(currency => currency === stored) ?? 'USD'
+}
+
+// Currency card prices and collection values are shown in
+export const priceCurrency = ref<PriceCurrency>(loadPriceCurrency())
+
+export function setPriceCurrency(currency: PriceCurrency): void {
+  priceCurrency.value = currency
+  localStorage.setItem(CURRENCY_STORAGE_KEY, currency)
+}
+
+// Price of one copy in the given finish. Etched copies use the foil price, and a
+// printing that only exists in one finish falls back to that price.
+export function getCardPrice(
+  card: ScryfallCard,
+  finish: CardFinish,
+  currency: PriceCurrency = priceCurrency.value
+): number | undefined {
+  return getPrice(card.prices, finish, currency)
+}
+
+// Same as getCardPrice, for prices kept without their card (e.g. in value snapshots)
+export function getPrice(
+  prices: Omit<CardPrices, 'updatedAt'> | undefined,
+  finish: CardFinish,
+  currency: PriceCurrency = priceCurrency.value
+): number | undefined {
+  if (!prices) return undefined
+  const regular = currency === 'USD' ? prices.usd : prices.eur
+  const foil = currency === 'USD' ? prices.usd_foil : prices.eur_foil
+  return finish === 'nonfoil' ? regular ?? foil : foil ?? regular
+}
+
+export function formatPrice(amount: number): string {
+  return formatMoney(amount, priceCurrency.value)
+}
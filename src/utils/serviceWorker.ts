@@ -0,0 +1,11 @@
+// Register the offline service worker. Only production builds use it - in
+// development it would cache the dev server's modules.
+export function registerServiceWorker(): void {
+  if (!import.meta.env.PROD || !('serviceWorker' in navigator)) return
+
+  window.addEventListener('load', () => {
+    navigator.serviceWorker.register('/sw.js').catch(error => {
+      console.warn('Service worker registration failed:', error)
+    })
+  })
+}
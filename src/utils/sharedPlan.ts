@@ -0,0 +1,483 @@
+import type { BinderPlan, Container, CopyTarget, OwnedCopy, OwnershipLookup, Segment } from '@/types'
+import { copyMatchesTarget, isDefaultCopy, DEFAULT_COPY } from '@/types'
+import { useBindersStore, useSegmentsStore, usePlansStore, useCollectionStore, useHistoryStore } from '@/stores'
+import { downloadFile } from '@/utils/download'
+
+export const SHARED_PLAN_FORMAT = 'spellbinder-shared-set'
+const SHARED_PLAN_VERSION = 1
+
+// Route that opens shared sets; the payload goes in the URL fragment so it never reaches a server
+export const SHARED_PLAN_PATH = '/shared'
+
+export type SharedContainer =
+  | { name: string; type: 'binder'; pageCount: number; slotsPerPage: number }
+  | { name: string; type: 'box' }
+
+// Slot state is keyed by the entry's position in the segment, as entry IDs mean nothing to the recipient
+export interface SharedSegment {
+  name: string
+  scryfallSetCode: string
+  cardIds: string[]
+  offset: number
+  targetBinder?: number                          // Index into the shared binders
+  copyTarget?: CopyTarget
+  spacersBefore?: Record<number, number>
+  owned?: Record<number, number | OwnedCopy[]>   // Just a count when every copy is the default
+  wanted?: Record<number, number>
+  skipped?: number[]
+}
+
+export interface SharedPlanFile {
+  format: typeof SHARED_PLAN_FORMAT
+  version: number
+  sharedAt: string
+  name: string
+  binders: SharedContainer[]
+  segments: SharedSegment[]
+}
+
+// A shared set unpacked into the app's own types, with IDs generated for viewing it
+export interface SharedPlan {
+  name: string
+  sharedAt: string
+  binders: Container[]
+  segments: Segment[]
+  owned: Map<string, OwnedCopy[]>
+  wanted: Map<string, number>
+  skipped: Set<string>
+}
+
+/**
+ * Collect a set's storage, segments and slot ownership for sharing.
+ * Cover images and anything outside the set (decks, ledger, unsorted cards) are left out.
+ */
+export function createSharedPlan(plan: BinderPlan): SharedPlanFile {
+  const bindersStore = useBindersStore()
+  const collectionStore = useCollectionStore()
+  const binders = bindersStore.getBindersInOrder(plan.binderIds)
+  const binderIndex = new Map(binders.map((binder, index) => [binder.id, index]))
+
+  const segments = useSegmentsStore().getSegmentsInOrder(plan.segmentIds).map(segment => {
+    const shared: SharedSegment = {
+      name: segment.name,
+      scryfallSetCode: segment.scryfallSetCode,
+      cardIds: segment.cardIds,
+      offset: segment.offset
+    }
+    const targetBinder = segment.targetBinderId ? binderIndex.get(segment.targetBinderId) : undefined
+    if (targetBinder !== undefined) shared.targetBinder = targetBinder
+    if (segment.copyTarget) shared.copyTarget = segment.copyTarget
+
+    const spacersBefore: Record<number, number> = {}
+    const owned: Record<number, number | OwnedCopy[]> = {}
+    const wanted: Record<number, number> = {}
+    const skipped: number[] = []
+    segment.entryIds.forEach((entryId, index) => {
+      const spacers = segment.spacersBefore[entryId]
+      if (spacers) spacersBefore[index] = spacers
+      const copies = collectionStore.getCopies(entryId)
+      if (copies.length > 0) owned[index] = copies.every(isDefaultCopy) ? copies.length : copies
+      const wantedCount = collectionStore.getWantedCount(entryId)
+      if (wantedCount !== 1) wanted[index] = wantedCount
+      if (collectionStore.isSkipped(entryId)) skipped.push(index)
+    })
+    if (Object.keys(spacersBefore).length > 0) shared.spacersBefore = spacersBefore
+    if (Object.keys(owned).length > 0) shared.owned = owned
+    if (Object.keys(wanted).length > 0) shared.wanted = wanted
+    if (skipped.length > 0) shared.skipped = skipped
+    return shared
+  })
+
+  return {
+    format: SHARED_PLAN_FORMAT,
+    version: SHARED_PLAN_VERSION,
+    sharedAt: new Date().toISOString(),
+    name: plan.name,
+    binders: binders.map((binder): SharedContainer => binder.type === 'binder'
+      ? { name: binder.name, type: 'binder', pageCount: binder.pageCount, slotsPerPage: binder.slotsPerPage }
+      : { name: binder.name, type: 'box' }),
+    segments
+  }
+}
+
+function isCount(value: unknown, min: number): value is number {
+  return typeof value === 'number' && Number.isInteger(value) && value >= min
+}
+
+function isIndexMap(value: unknown, isValue: (item: unknown) => boolean): boolean {
+  if (value === undefined) return true
+  if (!value || typeof value !== 'object' || Array.isArray(value)) return false
+  return Object.entries(value).every(([key, item]) => /^\d+$/.test(key) && isValue(item))
+}
+
+function isCopy(value: unknown): value is OwnedCopy {
+  const copy = value as Partial<OwnedCopy> | null
+  return !!copy && typeof copy.finish === 'string' && typeof copy.condition === 'string' && typeof copy.language === 'string'
+}
+
+function assertSharedContainer(value: unknown): void {
+  const container = value as Partial<SharedContainer> | null
+  if (!container || typeof container.name !== 'string') {
+    throw new Error('Invalid shared set: contains storage without a name')
+  }
+  if (container.type === 'binder') {
+    if (!isCount(container.pageCount, 1) || !isCount(container.slotsPerPage, 1)) {
+      throw new Error(`Invalid shared set: binder "${container.name}" has no page layout`)
+    }
+  } else if (container.type !== 'box') {
+    throw new Error(`Invalid shared set: storage "${container.name}" is neither a binder nor a box`)
+  }
+}
+
+function assertSharedSegment(value: unknown, binderCount: number): void {
+  const segment = value as Partial<SharedSegment> | null
+  if (!segment || typeof segment.name !== 'string' || typeof segment.scryfallSetCode !== 'string') {
+    throw new Error('Invalid shared set: contains a segment without a name or set')
+  }
+  if (!Array.isArray(segment.cardIds) || segment.cardIds.some(cardId => typeof cardId !== 'string')) {
+    throw new Error(`Invalid shared set: segment "${segment.name}" has no card list`)
+  }
+  if (!isCount(segment.offset, 0)) {
+    throw new Error(`Invalid shared set: segment "${segment.name}" has an invalid offset`)
+  }
+  if (segment.targetBinder !== undefined && !(isCount(segment.targetBinder, 0) && segment.targetBinder < binderCount)) {
+    throw new Error(`Invalid shared set: segment "${segment.name}" targets storage that isn't in the set`)
+  }
+  const valid = isIndexMap(segment.spacersBefore, item => isCount(item, 0)) &&
+    isIndexMap(segment.owned, item => isCount(item, 0) || (Array.isArray(item) && item.every(isCopy))) &&
+    isIndexMap(segment.wanted, item => isCount(item, 1)) &&
+    (segment.skipped === undefined || (Array.isArray(segment.skipped) && segment.skipped.every(index => isCount(index, 0))))
+  if (!valid) {
+    throw new Error(`Invalid shared set: segment "${segment.name}" has malformed card state`)
+  }
+}
+
+/**
+ * Validate a shared set, read from a file or decoded from a link
+ */
+export function parseSharedPlan(value: unknown): SharedPlanFile {
+  const file = value as Partial<SharedPlanFile> | null
+  if (!file || typeof file !== 'object' || file.format !== SHARED_PLAN_FORMAT) {
+    throw new Error('Invalid shared set: this is not a Spellbinder shared set')
+  }
+  if (typeof file.version !== 'number' || file.version > SHARED_PLAN_VERSION) {
+    throw new Error('This set was shared from a newer version of Spellbinder. Please update the app first.')
+  }
+  if (typeof file.name !== 'string') {
+    throw new Error('Invalid shared set: missing set name')
+  }
+  if (!Array.isArray(file.binders) || !Array.isArray(file.segments)) {
+    throw new Error('Invalid shared set: missing storage or segments')
+  }
+  file.binders.forEach(assertSharedContainer)
+  for (const segment of file.segments) {
+    assertSharedSegment(segment, file.binders.length)
+  }
+  return file as SharedPlanFile
+}
+
+export function parseSharedPlanText(text: string): SharedPlanFile {
+  let parsed: unknown
+  try {
+    parsed = JSON.parse(text)
+  } catch {
+    throw new Error('Invalid shared set: file is not valid JSON')
+  }
+  return parseSharedPlan(parsed)
+}
+
+function toBase64Url(bytes: Uint8Array): string {
+  let binary = ''
+  // Chunked, as spreading a large array into fromCharCode overflows the call stack
+  for (let index = 0; index < bytes.length; index += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(index, index + 0x8000))
+  }
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '')
+}
+
+function fromBase64Url(text: string): Uint8Array<ArrayBuffer> {
+  const binary = atob(text.replace(/-/g, '+').replace(/_/g, '/'))
+  return Uint8Array.from(binary, char => char.charCodeAt(0))
+}
+
+/**
+ * Compress a shared set into a URL-safe string for a link
+ */
+export async function encodeSharedPlan(file: SharedPlanFile): Promise<string> {
+  const stream = new Blob([JSON.stringify(file)]).stream().pipeThrough(new CompressionStream('deflate-raw'))
+  return toBase64Url(new Uint8Array(await new Response(stream).arrayBuffer()))
+}
+
+export async function decodeSharedPlan(payload: string): Promise<SharedPlanFile> {
+  let text: string
+  try {
+    const stream = new Blob([fromBase64Url(payload)]).stream().pipeThrough(new DecompressionStream('deflate-raw'))
+    text = await new Response(stream).text()
+  } catch {
+    throw new Error('This shared set link is damaged or incomplete. Ask for the link again, or for the file instead.')
+  }
+  return parseSharedPlanText(text)
+}
+
+export function getSharedPlanLink(payload: string): string {
+  return `${window.location.origin}${SHARED_PLAN_PATH}#${payload}`
+}
+
+export function downloadSharedPlan(file: SharedPlanFile): void {
+  const base = file.name.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '') || 'set'
+  downloadFile(JSON.stringify(file), `${base}-shared.json`, 'application/json')
+}
+
+function expandCopies(owned: number | OwnedCopy[]): OwnedCopy[] {
+  return typeof owned === 'number'
+    ? Array.from({ length: owned }, () => ({ ...DEFAULT_COPY }))
+    : owned.map(copy => ({ ...copy }))
+}
+
+/**
+ * Turn a shared set into binders, segments and slot state like the local ones, with fresh IDs
+ */
+export function unpackSharedPlan(file: SharedPlanFile): SharedPlan {
+  const binders = file.binders.map((binder): Container => ({ ...binder, id: crypto.randomUUID() }))
+  const owned = new Map<string, OwnedCopy[]>()
+  const wanted = new Map<string, number>()
+  const skipped = new Set<string>()
+
+  const segments = file.segments.map((shared): Segment => {
+    const entryIds = shared.cardIds.map(() => crypto.randomUUID())
+    const spacersBefore: Record<string, number> = {}
+    for (const [index, count] of Object.entries(shared.spacersBefore ?? {})) {
+      const entryId = entryIds[Number(index)]
+      if (entryId) spacersBefore[entryId] = count
+    }
+    for (const [index, copies] of Object.entries(shared.owned ?? {})) {
+      const entryId = entryIds[Number(index)]
+      if (entryId) owned.set(entryId, expandCopies(copies))
+    }
+    for (const [index, count] of Object.entries(shared.wanted ?? {})) {
+      const entryId = entryIds[Number(index)]
+      if (entryId) wanted.set(entryId, count)
+    }
+    for (const index of shared.skipped ?? []) {
+      const entryId = entryIds[index]
+      if (entryId) skipped.add(entryId)
+    }
+    return {
+      id: crypto.randomUUID(),
+      name: shared.name,
+      scryfallSetCode: shared.scryfallSetCode,
+      cardIds: [...shared.cardIds],
+      entryIds,
+      offset: shared.offset,
+      targetBinderId: shared.targetBinder !== undefined ? binders[shared.targetBinder]?.id : undefined,
+      spacersBefore,
+      copyTarget: shared.copyTarget
+    }
+  })
+
+  return { name: file.name, sharedAt: file.sharedAt, binders, segments, owned, wanted, skipped }
+}
+
+/**
+ * Ownership lookups answered from a shared set, so it can be browsed without the local collection
+ */
+export function createSharedOwnership(shared: SharedPlan): OwnershipLookup {
+  const targets = new Map<string, CopyTarget | undefined>()
+  for (const segment of shared.segments) {
+    for (const entryId of segment.entryIds) {
+      targets.set(entryId, segment.copyTarget)
+    }
+  }
+  const getWantedCount = (entryId: string) => shared.wanted.get(entryId) ?? 1
+  const getQualifyingCount = (entryId: string) =>
+    (shared.owned.get(entryId) ?? []).filter(copy => copyMatchesTarget(copy, targets.get(entryId))).length
+
+  return {
+    getOwnedCount: entryId => shared.owned.get(entryId)?.length ?? 0,
+    getWantedCount,
+    getQualifyingCount,
+    isOwned: entryId => getQualifyingCount(entryId) >= getWantedCount(entryId),
+    isSkipped: entryId => shared.skipped.has(entryId)
+  }
+}
+
+// Which copies a merged slot keeps when both people own the card
+export type MergeResolution = 'mine' | 'theirs' | 'both'
+
+export const MERGE_RESOLUTIONS: { value: MergeResolution; label: string }[] = [
+  { value: 'mine', label: 'Keep my copies' },
+  { value: 'theirs', label: 'Keep their copies (mine are logged as disposed)' },
+  { value: 'both', label: 'Keep both (count every copy)' }
+]
+
+// One slot of a shared segment next to the local slot holding the same card
+export interface MergedEntry {
+  entryId: string        // Shared entry
+  cardId: string
+  localEntryId?: string  // Unset when the local segment doesn't have this card
+  mine: OwnedCopy[]
+  theirs: OwnedCopy[]
+}
+
+export interface SegmentMergeSummary {
+  entries: MergedEntry[]
+  gained: number         // Owned only by them
+  kept: number           // Owned only by me
+  conflicts: MergedEntry[]  // Owned by both, with different copies
+  unmatched: number      // Their cards the local segment doesn't have
+}
+
+/**
+ * Local segments covering the same Scryfall set as each shared segment, keyed by shared segment ID
+ */
+export function findMatchingSegments(shared: SharedPlan): Map<string, Segment[]> {
+  const segments = useSegmentsStore().segments
+  const matches = new Map<string, Segment[]>()
+  for (const segment of shared.segments) {
+    const local = segments.filter(candidate => candidate.scryfallSetCode === segment.scryfallSetCode)
+    if (local.length > 0) matches.set(segment.id, local)
+  }
+  return matches
+}
+
+function copyKey(copy: OwnedCopy): string {
+  return `${copy.finish}|${copy.condition}|${copy.language}`
+}
+
+function sameCopies(a: OwnedCopy[], b: OwnedCopy[]): boolean {
+  return a.length === b.length && a.map(copyKey).sort().join() === b.map(copyKey).sort().join()
+}
+
+/**
+ * Pair the slots of a shared segment with a local segment's, by card.
+ * A card appearing more than once is paired in order of appearance.
+ */
+export function summarizeSegmentMerge(shared: SharedPlan, sharedSegment: Segment, localSegment: Segment): SegmentMergeSummary {
+  const collectionStore = useCollectionStore()
+  const localEntries = new Map<string, string[]>()
+  localSegment.cardIds.forEach((cardId, index) => {
+    const entryIds = localEntries.get(cardId) ?? []
+    entryIds.push(localSegment.entryIds[index]!)
+    localEntries.set(cardId, entryIds)
+  })
+
+  const summary: SegmentMergeSummary = { entries: [], gained: 0, kept: 0, conflicts: [], unmatched: 0 }
+  sharedSegment.cardIds.forEach((cardId, index) => {
+    const localEntryId = localEntries.get(cardId)?.shift()
+    const entry: MergedEntry = {
+      entryId: sharedSegment.entryIds[index]!,
+      cardId,
+      localEntryId,
+      mine: localEntryId ? collectionStore.getCopies(localEntryId) : [],
+      theirs: shared.owned.get(sharedSegment.entryIds[index]!) ?? []
+    }
+    summary.entries.push(entry)
+    if (!localEntryId) summary.unmatched++
+    if (entry.theirs.length > 0 && entry.mine.length === 0) summary.gained++
+    if (entry.mine.length > 0 && entry.theirs.length === 0) summary.kept++
+    if (entry.mine.length > 0 && entry.theirs.length > 0 && !sameCopies(entry.mine, entry.theirs)) {
+      summary.conflicts.push(entry)
+    }
+  })
+  return summary
+}
+
+// Their owned ∪ mine: whoever owns the card provides the copies, the resolution decides when both do.
+// Returns `entry.mine` itself when my copies stay as they are.
+function resolveCopies(entry: MergedEntry, resolution: MergeResolution): OwnedCopy[] {
+  if (entry.mine.length === 0) return entry.theirs
+  if (entry.theirs.length === 0 || sameCopies(entry.mine, entry.theirs)) return entry.mine
+  switch (resolution) {
+    case 'mine':
+      return entry.mine
+    case 'theirs':
+      return entry.theirs
+    case 'both':
+      return [...entry.mine, ...entry.theirs]
+  }
+}
+
+export interface SharedPlanImportOptions {
+  includeOwned: boolean          // Copy the sharer's owned cards into segments that aren't merged
+  merges: Map<string, string>    // Shared segment ID -> local segment their ownership is merged into
+  resolution: MergeResolution
+}
+
+/**
+ * Add a shared set to the local data as a new set, as one undo step.
+ * Storage and segments get new IDs; wanted counts and skips come along as part of the layout.
+ * For a segment merged with a local segment of the same set, the sharer's copies go into the
+ * local segment, so each card is owned once; only cards the local segment lacks keep their
+ * copies in the new segment. Local copies replaced by theirs are logged as disposed. Unmerged segments get the sharer's copies when `includeOwned` is set.
+ */
+export async function importSharedPlan(shared: SharedPlan, options: SharedPlanImportOptions): Promise<BinderPlan> {
+  const bindersStore = useBindersStore()
+  const segmentsStore = useSegmentsStore()
+  const plansStore = usePlansStore()
+  const collectionStore = useCollectionStore()
+
+  const containers = await Promise.all(shared.binders.map(binder =>
+    bindersStore.prepareBinder(binder.name, binder.type === 'binder'
+      ? { type: 'binder', pageCount: binder.pageCount, slotsPerPage: binder.slotsPerPage }
+      : { type: 'box' })
+  ))
+
+  return useHistoryStore().transact(`Import shared set "${shared.name}"`, () => {
+    const plan = plansStore.createPlan(shared.name)
+
+    const binderIds = new Map<string, string>()
+    shared.binders.forEach((binder, index) => {
+      const created = bindersStore.insertBinder(containers[index]!)
+      binderIds.set(binder.id, created.id)
+      plansStore.addBinderToPlan(plan.id, created.id)
+    })
+
+    const entryIds = new Map<string, string>()
+    const copies = new Map<string, OwnedCopy[]>()
+    const replacing = new Set<string>()  // Local entries whose copies give way to theirs
+    for (const segment of shared.segments) {
+      // Read local ownership before anything is written
+      const localSegment = segmentsStore.getSegment(options.merges.get(segment.id) ?? '')
+      const merged = localSegment ? summarizeSegmentMerge(shared, segment, localSegment) : null
+
+      const targetBinderId = segment.targetBinderId ? binderIds.get(segment.targetBinderId) : undefined
+      const created = segmentsStore.addSegment(segment.name, segment.scryfallSetCode, [...segment.cardIds], segment.offset, targetBinderId)
+      segment.entryIds.forEach((entryId, index) => entryIds.set(entryId, created.entryIds[index]!))
+
+      const spacersBefore: Record<string, number> = {}
+      for (const [entryId, count] of Object.entries(segment.spacersBefore)) {
+        spacersBefore[entryIds.get(entryId)!] = count
+      }
+      segmentsStore.updateSegment(created.id, { spacersBefore, copyTarget: segment.copyTarget })
+      plansStore.addSegmentToPlan(plan.id, created.id)
+
+      if (merged) {
+        for (const entry of merged.entries) {
+          if (entry.localEntryId) {
+            const resolved = resolveCopies(entry, options.resolution)
+            if (resolved !== entry.mine && resolved.length > 0) copies.set(entry.localEntryId, resolved)
+            if (resolved === entry.theirs && entry.mine.length > 0) replacing.add(entry.localEntryId)
+          } else if (entry.theirs.length > 0) {
+            copies.set(entryIds.get(entry.entryId)!, entry.theirs)
+          }
+        }
+      } else if (options.includeOwned) {
+        for (const entryId of segment.entryIds) {
+          const owned = shared.owned.get(entryId)
+          if (owned) copies.set(entryIds.get(entryId)!, owned)
+        }
+      }
+    }
+
+    for (const [entryId, count] of shared.wanted) {
+      collectionStore.setWantedCount(entryIds.get(entryId)!, count)
+    }
+    for (const entryId of shared.skipped) {
+      collectionStore.setSkipped(entryIds.get(entryId)!, true)
+    }
+    if (copies.size > 0) {
+      collectionStore.importSharedCopies(copies, replacing)
+    }
+    return plan
+  })
+}
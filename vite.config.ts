@@ -1,10 +1,75 @@
-import { defineConfig } from 'vite'
+import { defineConfig, type Plugin } from 'vite'
 import vue from '@vitejs/plugin-vue'
 import { fileURLToPath, URL } from 'node:url'
+import { createHash } from 'node:crypto'
+import { readdirSync } from 'node:fs'
+
+// Files in public/ that the service worker shouldn't precache
+const UNCACHED_PUBLIC_FILES = ['sw.js']
+
+// Write precache-manifest.json, the list of app shell files the service worker
+// (public/sw.js) caches on install. Its version changes whenever a file does.
+function precacheManifest(): Plugin {
+  return {
+    name: 'spellbinder-precache-manifest',
+    apply: 'build',
+    generateBundle(_options, bundle) {
+      const publicDir = fileURLToPath(new URL('./public', import.meta.url))
+      const publicFiles = readdirSync(publicDir).filter(file => !UNCACHED_PUBLIC_FILES.includes(file))
+      const bundleFiles = Object.keys(bundle).filter(file => !file.endsWith('.map'))
+
+      const urls = [...new Set(['/', '/index.html', ...publicFiles, ...bundleFiles].map(file => file.startsWith('/') ? file : `/${file}`))]
+      const version = createHash('sha256').update(urls.join('\n')).digest('hex').slice(0, 12)
+
+      this.emitFile({
+        type: 'asset',
+        fileName: 'precache-manifest.json',
+        source: JSON.stringify({ version, urls })
+      })
+    }
+  }
+}
+
+// Netlify functions served by the dev server, by the path prefix they're mounted at
+const DEV_FUNCTIONS: Record<string, string> = {
+  '/api/archidekt/': '/netlify/functions/archidekt.ts',
+  '/api/moxfield/': '/netlify/functions/moxfield.ts'
+}
+
+// Run the functions in netlify/functions inside the dev server, so `npm run dev`
+// works without the Netlify CLI. Upstream URLs come from the environment as in production.
+function netlifyFunctions(): Plugin {
+  return {
+    name: 'spellbinder-netlify-functions',
+    apply: 'serve',
+    configureServer(server) {
+      server.middlewares.use(async (req, res, next) => {
+        const prefix = Object.keys(DEV_FUNCTIONS).find(path => req.url?.startsWith(path))
+        if (!prefix) return next()
+
+        try {
+          const module = await server.ssrLoadModule(DEV_FUNCTIONS[prefix]!)
+          const handler = module.default as (request: Request) => Promise<Response>
+          const headers = new Headers()
+          for (const [name, value] of Object.entries(req.headers)) {
+            if (typeof value === 'string') headers.set(name, value)
+          }
+          const response = await handler(new Request(new URL(req.url!, 'http://localhost'), { method: req.method, headers }))
+
+          res.statusCode = response.status
+          response.headers.forEach((value, name) => res.setHeader(name, value))
+          res.end(Buffer.from(await response.arrayBuffer()))
+        } catch (error) {
+          next(error)
+        }
+      })
+    }
+  }
+}
 
 // https://vite.dev/config/
 export default defineConfig({
-  plugins: [vue()],
+  plugins: [vue(), precacheManifest(), netlifyFunctions()],
   resolve: {
     alias: {
       '@': fileURLToPath(new URL('./src', import.meta.url))